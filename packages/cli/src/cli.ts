@@ -6,9 +6,16 @@ import { initCommand } from './commands/init.js';
 import { validateCommand } from './commands/validate.js';
 import { packageCommand } from './commands/package.js';
 import { devCommand } from './commands/dev.js';
+import { buildCssCommand } from './commands/build-css.js';
+import { previewCommand } from './commands/preview.js';
+import { compatCommand } from './commands/compat.js';
+import { releaseCommand } from './commands/release.js';
+import { loginCommand, logoutCommand } from './commands/login.js';
 
 const program = new Command();
 
+const collect = (value: string, previous: string[]) => [...previous, value];
+
 program
   .name('spwig')
   .description('Spwig Theme SDK - Build professional themes for Spwig eCommerce')
@@ -38,6 +45,10 @@ program
   .command('validate [path]')
   .description('Validate theme package')
   .option('-v, --verbose', 'Show detailed validation output')
+  .option('-f, --format <format>', 'Output format (text, json, sarif, junit)', 'text')
+  .option('-o, --output <file>', 'Write the report to a file instead of stdout')
+  .option('--fix', 'Apply automatic fixes to the theme files')
+  .option('--fix-dry-run', 'Print automatic fixes as a unified diff without changing files')
   .action(async (path, options) => {
     try {
       const exitCode = await validateCommand(path || process.cwd(), options);
@@ -48,6 +59,21 @@ program
     }
   });
 
+// spwig compat
+program
+  .command('compat [path]')
+  .description('Report theme features a platform version does not support')
+  .requiredOption('-p, --platform <version>', 'Platform version to check against (e.g., 2.1.0)')
+  .action(async (path, options) => {
+    try {
+      const exitCode = await compatCommand(path || process.cwd(), options);
+      process.exit(exitCode);
+    } catch (error) {
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
 // spwig package
 program
   .command('package')
@@ -56,6 +82,7 @@ program
   .option('-n, --name <filename>', 'Custom package name')
   .option('--no-validate', 'Skip validation before packaging')
   .option('-c, --checksum <algo>', 'Checksum algorithm (sha256, md5)', 'sha256')
+  .option('--flatten-tokens', 'Resolve token references to literal values in the packaged tokens.json')
   .action(async (options) => {
     try {
       await packageCommand(process.cwd(), options);
@@ -65,6 +92,40 @@ program
     }
   });
 
+// spwig release
+program
+  .command('release <version> [path]')
+  .description('Bump the theme version (major, minor, patch or x.y.z), add a changelog entry, validate and package')
+  .option('-m, --message <change>', 'Changelog line (repeatable)', collect, [])
+  .option('--from-git', 'Add the commit subjects since the last git tag to the changelog')
+  .option('--date <date>', 'Release date (YYYY-MM-DD, default today)')
+  .option('--no-package', 'Skip packaging after the release')
+  .option('-o, --output <path>', 'Package output directory')
+  .action(async (version, path, options) => {
+    try {
+      const exitCode = await releaseCommand(version, path || process.cwd(), options);
+      process.exit(exitCode);
+    } catch (error) {
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+// spwig build-css
+program
+  .command('build-css [path]')
+  .description('Compile tokens.json to the CSS variables the platform generates')
+  .option('-o, --output <file>', 'Write CSS to a file instead of stdout')
+  .action(async (path, options) => {
+    try {
+      const exitCode = await buildCssCommand(path || process.cwd(), options);
+      process.exit(exitCode);
+    } catch (error) {
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
 // spwig dev
 program
   .command('dev [path]')
@@ -73,6 +134,8 @@ program
   .option('-p, --port <port>', 'Local port for dev server', '3000')
   .option('--no-open', 'Do not open browser automatically')
   .option('-v, --verbose', 'Enable verbose logging')
+  .option('-t, --token <token>', 'API token (default: $SPWIG_TOKEN, then the token stored by spwig login)')
+  .option('--strict', "Don't sync tokens.json or presets with validation errors")
   .action(async (path, options) => {
     try {
       await devCommand(path || process.cwd(), options);
@@ -81,6 +144,54 @@ program
       process.exit(1);
     }
   });
+
+// spwig login
+program
+  .command('login')
+  .description('Log in to a shop and store an API token for spwig dev')
+  .requiredOption('-s, --shop <url>', 'Spwig shop URL (e.g., http://localhost:8000)')
+  .option('-u, --username <name>', 'Admin username')
+  .action(async (options) => {
+    try {
+      const exitCode = await loginCommand(options);
+      process.exit(exitCode);
+    } catch (error) {
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+// spwig logout
+program
+  .command('logout')
+  .description('Revoke and remove the stored API token for a shop, or for every shop')
+  .option('-s, --shop <url>', 'Spwig shop URL (default: every shop)')
+  .action(async (options) => {
+    try {
+      const exitCode = await logoutCommand(options);
+      process.exit(exitCode);
+    } catch (error) {
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+// spwig preview
+program
+  .command('preview [path]')
+  .description('Preview the theme offline on a local storefront mock with hot reload')
+  .option('-p, --port <port>', 'Local port for preview server', '3000')
+  .option('--no-open', 'Do not open browser automatically')
+  .option('-v, --verbose', 'Enable verbose logging')
+  .action(async (path, options) => {
+    try {
+      await previewCommand(path || process.cwd(), options);
+    } catch (error) {
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
 // Global error handler
 process.on('uncaughtException', (error) => {
   console.error(chalk.red('Uncaught Exception:'), error.message);
@@ -0,0 +1,60 @@
+/**
+ * Build CSS command
+ * Compiles tokens.json to the --theme-* stylesheet the platform generates
+ */
+
+import chalk from 'chalk';
+import path from 'path';
+import fs from 'fs-extra';
+import { TokenCompiler } from '@spwig/theme-validator';
+import type { ThemeManifest, DesignTokens } from '@spwig/theme-validator';
+
+export interface BuildCssOptions {
+  output?: string;
+}
+
+export async function buildCssCommand(themePath: string, options: BuildCssOptions): Promise<number> {
+  const absolutePath = path.resolve(themePath);
+  const tokensPath = path.join(absolutePath, 'tokens.json');
+
+  if (!(await fs.pathExists(tokensPath))) {
+    console.error(chalk.red('Error:'), `No tokens.json found in ${absolutePath}`);
+    return 1;
+  }
+
+  let tokens: DesignTokens;
+  try {
+    tokens = await fs.readJSON(tokensPath);
+  } catch (error) {
+    console.error(chalk.red('Error:'), `Failed to parse tokens.json: ${error instanceof Error ? error.message : error}`);
+    return 1;
+  }
+
+  // Dark mode blocks are only generated when the manifest doesn't opt out
+  const manifestPath = path.join(absolutePath, 'manifest.json');
+  let manifest: Partial<ThemeManifest> = {};
+  if (await fs.pathExists(manifestPath)) {
+    manifest = await fs.readJSON(manifestPath).catch(() => ({}));
+  }
+
+  const compiler = new TokenCompiler();
+  const css = compiler.compile(tokens, {
+    darkMode: manifest.features?.dark_mode === true,
+    header: `Generated from ${manifest.name || path.basename(absolutePath)}/tokens.json by spwig build-css`,
+  });
+
+  // Without --output the stylesheet goes to stdout so it can be piped or diffed
+  if (!options.output) {
+    process.stdout.write(css);
+    return 0;
+  }
+
+  const outputPath = path.resolve(options.output);
+  await fs.ensureDir(path.dirname(outputPath));
+  await fs.writeFile(outputPath, css, 'utf-8');
+
+  const variableCount = new Set(compiler.collectVariables(tokens).map((v) => v.name)).size;
+  console.log(chalk.green('✅ CSS written to'), outputPath);
+  console.log(chalk.gray(`   ${variableCount} variables`));
+  return 0;
+}
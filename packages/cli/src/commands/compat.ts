@@ -0,0 +1,108 @@
+/**
+ * Compat command
+ * Reports what in a theme a given platform version doesn't support
+ */
+
+import chalk from 'chalk';
+import ora from 'ora';
+import path from 'path';
+import fs from 'fs-extra';
+import {
+  ThemeValidator,
+  PLATFORM_COMPATIBILITY_TYPES,
+  compareVersions,
+  loadPlatformCapabilities,
+  parseSemver,
+} from '@spwig/theme-validator';
+import type { ValidationResult } from '@spwig/theme-validator';
+import { formatLocation } from './validate.js';
+
+export interface CompatOptions {
+  /** Platform version to check against (e.g., 2.1.0) */
+  platform: string;
+}
+
+// Report sections, in order
+const SECTIONS: Array<{ title: string; types: string[] }> = [
+  { title: 'Platform range', types: ['platform_out_of_range'] },
+  { title: 'Tokens', types: ['unsupported_token'] },
+  { title: 'Preset layout types', types: ['unsupported_layout_type'] },
+  { title: 'Widgets', types: ['unsupported_widget'] },
+];
+
+export async function compatCommand(themePath: string, options: CompatOptions): Promise<number> {
+  const platform = options.platform?.trim();
+  if (!platform || !parseSemver(platform)) {
+    console.error(chalk.red('Error:'), `Invalid platform version "${options.platform}". Use a semantic version such as 2.1.0`);
+    return 1;
+  }
+
+  const absolutePath = path.resolve(themePath);
+  if (!(await fs.pathExists(path.join(absolutePath, 'manifest.json')))) {
+    console.error(chalk.red('Error:'), `No manifest.json found in ${absolutePath}`);
+    return 1;
+  }
+
+  console.log(chalk.blue.bold('\n🔍 Spwig Theme SDK - Platform Compatibility\n'));
+  console.log(chalk.gray('Path:'), absolutePath);
+  console.log(chalk.gray('Platform:'), platform);
+  console.log();
+
+  const spinner = ora('Checking compatibility...').start();
+
+  const validator = new ThemeValidator(absolutePath, { platformVersion: platform });
+  let result: ValidationResult;
+  try {
+    result = await validator.validate();
+  } catch (error) {
+    spinner.fail('Compatibility check failed with error');
+    console.error(chalk.red('\nError:'), error instanceof Error ? error.message : error);
+    return 1;
+  }
+
+  if (!validator.hasCheckedPlatform()) {
+    spinner.fail(chalk.red('Compatibility checks skipped: manifest.json has errors'));
+    console.log();
+    console.log(chalk.red.bold(`❌ ERRORS (${result.errors.length}):`));
+    for (const error of result.errors) {
+      console.log(chalk.red('  •'), formatLocation(error, absolutePath) + error.message);
+    }
+    console.log();
+    console.error(chalk.red('Fix the errors and run spwig compat again.'));
+    return 1;
+  }
+
+  const issues = result.errors.filter((error) => PLATFORM_COMPATIBILITY_TYPES.includes(error.type));
+  const otherErrors = result.errors.length - issues.length;
+
+  if (issues.length === 0) {
+    spinner.succeed(chalk.green(`✅ Theme is compatible with platform ${platform}`));
+  } else {
+    spinner.fail(chalk.red(`❌ ${issues.length} incompatibilit${issues.length === 1 ? 'y' : 'ies'} with platform ${platform}`));
+  }
+  console.log();
+
+  for (const section of SECTIONS) {
+    const sectionIssues = issues.filter((issue) => section.types.includes(issue.type));
+    if (sectionIssues.length === 0) {
+      continue;
+    }
+    console.log(chalk.red.bold(`${section.title} (${sectionIssues.length}):`));
+    for (const issue of sectionIssues) {
+      console.log(chalk.red('  •'), formatLocation(issue, absolutePath) + issue.message);
+    }
+    console.log();
+  }
+
+  const capabilities = await loadPlatformCapabilities();
+  if (compareVersions(platform, capabilities.platform_version) > 0) {
+    console.log(
+      chalk.gray(`ℹ️  The capability table covers platform versions up to ${capabilities.platform_version}; update the CLI for newer ones`)
+    );
+  }
+  if (otherErrors > 0) {
+    console.log(chalk.yellow(`⚠️  The theme also has ${otherErrors} validation error(s). Run spwig validate for details.`));
+  }
+
+  return issues.length === 0 ? 0 : 1;
+}
@@ -7,16 +7,26 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as crypto from 'crypto';
+import * as zlib from 'zlib';
 import chalk from 'chalk';
 import ora, { Ora } from 'ora';
 import chokidar from 'chokidar';
 import open from 'open';
+import { ThemeValidator } from '@spwig/theme-validator';
+import type { ValidationResult } from '@spwig/theme-validator';
+import { formatLocation } from './validate.js';
+import { promptCredentials, requestToken } from './login.js';
+import { isExpired, readStoredToken, removeStoredToken, storeToken } from '../utils/credentials.js';
 
 interface DevOptions {
   shop: string;
   port?: number;
   open?: boolean;
   verbose?: boolean;
+  /** API token (default: $SPWIG_TOKEN, then the token stored by spwig login) */
+  token?: string;
+  /** Don't sync tokens.json or presets with validation errors */
+  strict?: boolean;
 }
 
 interface DevSession {
@@ -29,27 +39,139 @@ interface DevSession {
 interface SyncResult {
   success: boolean;
   synced: string[];
+  /** Deleted paths, and the new paths of renamed files */
+  deleted?: string[];
+  renamed?: string[];
   errors: string[];
   reload_type: string;
 }
 
 interface FileChange {
   path: string;
-  content: string;
+  /** Omitted when the file was uploaded in chunks */
+  content?: string;
   checksum: string;
   encoding: 'utf-8' | 'base64';
+  /** Number of chunks the file was uploaded in */
+  chunks?: number;
 }
 
+/**
+ * A theme file in the manifest sent before the initial sync
+ */
+interface FileEntry {
+  path: string;
+  checksum: string;
+  size: number;
+}
+
+/**
+ * Shop reply to the file manifest
+ */
+interface ManifestResult {
+  /** Paths whose content the shop doesn't have */
+  needed: string[];
+  /** Paths the shop has that are no longer in the theme */
+  stale?: string[];
+}
+
+interface FileRename {
+  from: string;
+  to: string;
+}
+
+/**
+ * One sync request: adds, updates, deletes and renames are applied together
+ */
+interface SyncPayload {
+  /** Added and changed files */
+  files: FileChange[];
+  /** Paths of deleted files */
+  deleted: string[];
+  /** Moved files whose content the shop already has */
+  renamed: FileRename[];
+}
+
+/**
+ * What the shop has: checksum by relative path
+ */
+type ShopIndex = Map<string, string>;
+
+/**
+ * Where sync requests go
+ */
+interface ShopConnection {
+  shopUrl: string;
+  token: string;
+  /** Shop supports the manifest handshake, chunked uploads and gzip-compressed requests */
+  incremental: boolean;
+  /** When the dev session token expires */
+  expiresAt?: string;
+  /** Reconnect for a new dev session token */
+  renew: () => Promise<void>;
+}
+
+/**
+ * Local validation of changed files before they are synced
+ */
+interface SyncGate {
+  validator: ThemeValidator;
+  /** Hold back tokens.json and presets with errors */
+  strict: boolean;
+  /** List warnings rather than count them */
+  verbose: boolean;
+}
+
+/**
+ * The shop rejected the credentials or token
+ */
+class AuthenticationError extends Error {}
+
+/**
+ * The shop can't be reached, or is restarting
+ */
+class ConnectionError extends Error {}
+
 // File extensions that should be encoded as base64
 const BINARY_EXTENSIONS = ['.png', '.jpg', '.jpeg', '.webp', '.woff', '.woff2', '.ico', '.gif'];
 
+// Files larger than this are uploaded in chunks of this size
+const CHUNK_SIZE = 1024 * 1024;
+
+// File content per sync request; more files go in further requests
+const MAX_BATCH_SIZE = 4 * 1024 * 1024;
+
+// Renew the dev session this long before it expires
+const SESSION_RENEW_MARGIN_MS = 60 * 1000;
+
+// Check the connection this often when no changes are being synced
+const HEARTBEAT_INTERVAL_MS = 15 * 1000;
+const HEARTBEAT_TIMEOUT_MS = 10 * 1000;
+
+// Wait before reconnect attempts, doubling from the first to the last
+const RECONNECT_MIN_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30 * 1000;
+
+// Responses from a proxy in front of a shop that is restarting
+const UNAVAILABLE_STATUSES = [502, 503, 504];
+
+// Files validated locally before they are synced
+const CHECKED_EXTENSIONS = ['.json', '.css'];
+
+// Files that break the dev storefront when synced with errors, held back with --strict
+const STRICT_FILES = /^(tokens\.json|presets[/\\].+\.json)$/;
+
 export async function devCommand(themePath: string, options: DevOptions): Promise<void> {
   const spinner = ora();
   let session: DevSession | null = null;
   let watcher: chokidar.FSWatcher | null = null;
+  let heartbeat: NodeJS.Timeout | null = null;
 
   // Cleanup handler
   const cleanup = async () => {
+    if (heartbeat) {
+      clearInterval(heartbeat);
+    }
     if (watcher) {
       await watcher.close();
     }
@@ -89,18 +211,67 @@ export async function devCommand(themePath: string, options: DevOptions): Promis
     console.log(`Theme: ${chalk.bold(themeName)}`);
     console.log(`Shop: ${chalk.cyan(options.shop)}\n`);
 
-    // Connect to shop
+    // Connect to shop, logging in again if the shop rejects the token
+    let authorization = await authenticate(options.shop, options);
+    const connect = async (): Promise<DevSession> => {
+      try {
+        return await connectToShop(options.shop, themeName, absoluteThemePath, authorization);
+      } catch (error) {
+        if (!(error instanceof AuthenticationError)) {
+          throw error;
+        }
+        spinner.stop();
+        authorization = await authenticate(options.shop, options, true);
+        return connectToShop(options.shop, themeName, absoluteThemePath, authorization);
+      }
+    };
+
     spinner.start('Connecting to shop...');
-    session = await connectToShop(options.shop, themeName, absoluteThemePath, options);
+    session = await connect();
     spinner.succeed(`Connected as ${chalk.green(session.message)}`);
 
     // Initial sync
     spinner.start('Syncing theme files...');
-    const files = await collectThemeFiles(absoluteThemePath);
-    const syncResult = await syncFiles(options.shop, session.token, files);
+    let renewing: Promise<void> | null = null;
+    const connection: ShopConnection = {
+      shopUrl: options.shop,
+      token: session.token,
+      incremental: false,
+      expiresAt: session.expires_at,
+      // Requests waiting on a renewal share it
+      renew: () => {
+        if (!renewing) {
+          renewing = connect()
+            .then((renewed) => {
+              session = renewed;
+              connection.token = renewed.token;
+              connection.expiresAt = renewed.expires_at;
+              if (options.verbose) {
+                console.log(chalk.dim('↻ Dev session renewed'));
+              }
+            })
+            .finally(() => {
+              renewing = null;
+            });
+        }
+        return renewing;
+      },
+    };
+    const shopIndex: ShopIndex = new Map();
+    const gate: SyncGate = {
+      validator: new ThemeValidator(absoluteThemePath),
+      strict: options.strict === true,
+      verbose: options.verbose === true,
+    };
+    const { result: syncResult, unchanged } = await initialSync(connection, absoluteThemePath, shopIndex, gate);
 
     if (syncResult.success) {
-      spinner.succeed(`Synced ${chalk.green(syncResult.synced.length)} files`);
+      const removed = syncResult.deleted?.length || 0;
+      spinner.succeed(
+        `Synced ${chalk.green(syncResult.synced.length)} files` +
+          (removed > 0 ? `, removed ${chalk.yellow(removed)}` : '') +
+          (unchanged > 0 ? chalk.dim(` (${unchanged} unchanged)`) : '')
+      );
     } else {
       spinner.warn(`Synced with ${chalk.yellow(syncResult.errors.length)} errors`);
       syncResult.errors.forEach(err => console.log(chalk.red(`  - ${err}`)));
@@ -108,7 +279,7 @@ export async function devCommand(themePath: string, options: DevOptions): Promis
 
     // Validate theme
     spinner.start('Validating theme...');
-    const validation = await validateTheme(options.shop, session.token);
+    const validation = await validateTheme(options.shop, connection.token);
 
     if (validation.is_valid) {
       spinner.succeed('Theme validation passed');
@@ -146,64 +317,126 @@ export async function devCommand(themePath: string, options: DevOptions): Promis
       },
     });
 
-    // Track pending changes for debouncing
-    let pendingChanges: Map<string, NodeJS.Timeout> = new Map();
+    // Paths changed since the last sync, synced together once changes settle,
+    // or once the shop is back when the connection dropped
+    const pendingPaths = new Set<string>();
+    let flushTimeout: NodeJS.Timeout | null = null;
+    let syncing: Promise<void> = Promise.resolve();
+    let connected = true;
+    let fatal: (error: unknown) => void = () => {};
     const DEBOUNCE_MS = 200;
 
-    const handleChange = async (filePath: string) => {
-      const relativePath = path.relative(absoluteThemePath, filePath);
-
-      // Clear existing timeout for this file
-      const existingTimeout = pendingChanges.get(relativePath);
-      if (existingTimeout) {
-        clearTimeout(existingTimeout);
+    const flush = async () => {
+      const changed = [...pendingPaths];
+      pendingPaths.clear();
+      try {
+        await syncChanges(connection, absoluteThemePath, shopIndex, changed, gate);
+      } catch (error) {
+        changed.forEach(relativePath => pendingPaths.add(relativePath));
+        throw error;
       }
+    };
+
+    /**
+     * Retry with backoff until the shop is back, then bring it up to date: shops with the
+     * checksum handshake are resynced, in case they lost files while down, and others get
+     * the changes queued in the meantime
+     */
+    const reconnect = async (reason: string) => {
+      connected = false;
+      console.log(`${chalk.yellow('⚠')} ${chalk.yellow('Disconnected:')} ${reason}. Changes are queued until the shop is back.`);
 
-      // Set new debounced timeout
-      pendingChanges.set(relativePath, setTimeout(async () => {
-        pendingChanges.delete(relativePath);
+      for (let attempt = 0; ; attempt++) {
+        const delay = Math.min(RECONNECT_MIN_DELAY_MS * 2 ** attempt, RECONNECT_MAX_DELAY_MS);
+        spinner.start(`Reconnecting in ${Math.round(delay / 1000)}s...` + (attempt > 0 ? chalk.dim(` (attempt ${attempt + 1})`) : ''));
+        await new Promise(resolve => setTimeout(resolve, delay));
+        spinner.text = 'Reconnecting...';
 
         try {
-          const content = await fs.readFile(filePath);
-          const ext = path.extname(filePath).toLowerCase();
-          const isBinary = BINARY_EXTENSIONS.includes(ext);
-
-          const file: FileChange = {
-            path: relativePath,
-            content: isBinary ? content.toString('base64') : content.toString('utf-8'),
-            checksum: crypto.createHash('sha256').update(content).digest('hex'),
-            encoding: isBinary ? 'base64' : 'utf-8',
-          };
-
-          const result = await syncFiles(options.shop, session!.token, [file]);
-
-          if (result.success) {
-            const icon = result.reload_type === 'css' ? '🎨' : '🔄';
-            console.log(`${icon} ${chalk.dim(relativePath)} ${chalk.green('synced')}`);
+          await connection.renew();
+          const queued = pendingPaths.size;
+          if (connection.incremental) {
+            pendingPaths.clear();
+            shopIndex.clear();
+            const { result, unchanged } = await initialSync(connection, absoluteThemePath, shopIndex, gate);
+            spinner.succeed(
+              `Reconnected, synced ${chalk.green(result.synced.length)} files` +
+                (result.deleted?.length ? `, removed ${chalk.yellow(result.deleted.length)}` : '') +
+                chalk.dim(` (${unchanged} unchanged)`)
+            );
+            result.errors.forEach(err => console.log(chalk.red(`  - ${err}`)));
           } else {
-            console.log(`${chalk.red('✗')} ${chalk.dim(relativePath)} ${chalk.red('failed')}`);
-            result.errors.forEach(err => console.log(chalk.red(`    ${err}`)));
+            spinner.succeed(queued > 0 ? `Reconnected, replaying ${chalk.green(queued)} queued changes` : 'Reconnected');
+            await flush();
+          }
+          break;
+        } catch (error) {
+          if (!(error instanceof ConnectionError)) {
+            spinner.fail('Reconnect failed');
+            throw error;
           }
-        } catch (err) {
-          console.log(`${chalk.red('✗')} ${chalk.dim(relativePath)} ${chalk.red('read error')}`);
         }
-      }, DEBOUNCE_MS));
+      }
+      connected = true;
+    };
+
+    // Requests go one at a time; when the connection drops, the rest wait for the reconnect
+    const enqueue = (task: () => Promise<void>) => {
+      syncing = syncing
+        .then(task)
+        .catch(async (error) => {
+          if (!(error instanceof ConnectionError)) {
+            throw error;
+          }
+          await reconnect(error.message);
+        })
+        .catch(error => fatal(error));
+    };
+
+    const queueSync = (relativePaths: string[]) => {
+      relativePaths.forEach(relativePath => pendingPaths.add(relativePath));
+      if (!connected) {
+        relativePaths.forEach(relativePath => console.log(`${chalk.yellow('⏸')} ${chalk.dim(relativePath)} ${chalk.yellow('queued')}`));
+      }
+      if (flushTimeout) {
+        clearTimeout(flushTimeout);
+      }
+      flushTimeout = setTimeout(() => {
+        flushTimeout = null;
+        enqueue(flush);
+      }, DEBOUNCE_MS);
+    };
+
+    // Detect a dropped connection, and renew the session before it expires, while idle
+    heartbeat = setInterval(() => {
+      if (connected) {
+        enqueue(() => sendHeartbeat(connection));
+      }
+    }, HEARTBEAT_INTERVAL_MS);
+
+    const handleChange = (filePath: string) => {
+      queueSync([path.relative(absoluteThemePath, filePath)]);
+    };
+
+    const handleDirectoryDelete = (dirPath: string) => {
+      // Some platforms only report the directory, so delete everything the shop has under it
+      const prefix = path.relative(absoluteThemePath, dirPath) + path.sep;
+      queueSync([...shopIndex.keys()].filter(relativePath => relativePath.startsWith(prefix)));
     };
 
     watcher
       .on('change', handleChange)
       .on('add', handleChange)
-      .on('unlink', (filePath) => {
-        const relativePath = path.relative(absoluteThemePath, filePath);
-        console.log(`${chalk.yellow('⊖')} ${chalk.dim(relativePath)} ${chalk.yellow('deleted')}`);
-        // TODO: Send delete event to shop
-      });
+      .on('unlink', handleChange)
+      .on('unlinkDir', handleDirectoryDelete);
 
     // Keep process running
     console.log(chalk.dim('Press Ctrl+C to stop\n'));
 
-    // Keep alive
-    await new Promise(() => {});
+    // Keep alive until an error the dev server can't recover from
+    await new Promise<never>((_, reject) => {
+      fatal = reject;
+    });
 
   } catch (error) {
     spinner.fail('Dev server failed');
@@ -219,61 +452,59 @@ export async function devCommand(themePath: string, options: DevOptions): Promis
   }
 }
 
-async function connectToShop(
-  shopUrl: string,
-  themeName: string,
-  themePath: string,
-  options: DevOptions
-): Promise<DevSession> {
-  // Prompt for credentials
-  const readline = await import('readline');
-  const rl = readline.createInterface({
-    input: process.stdin,
-    output: process.stdout,
-  });
+/**
+ * Authorization header for connecting: --token, $SPWIG_TOKEN, the token stored by spwig login,
+ * or a token for admin credentials prompted for in an interactive terminal
+ * @param rejected - The shop rejected the previous token, so prompt for credentials again
+ */
+async function authenticate(shopUrl: string, options: DevOptions, rejected = false): Promise<string> {
+  const given = options.token || process.env.SPWIG_TOKEN;
+  if (given) {
+    if (rejected) {
+      throw new Error(`The shop rejected the API token from ${options.token ? '--token' : 'SPWIG_TOKEN'}`);
+    }
+    return `Bearer ${given}`;
+  }
 
-  const question = (prompt: string): Promise<string> => {
-    return new Promise((resolve) => {
-      rl.question(prompt, (answer) => {
-        resolve(answer);
-      });
-    });
-  };
+  if (rejected) {
+    await removeStoredToken(shopUrl);
+  } else {
+    const stored = await readStoredToken(shopUrl);
+    if (stored) {
+      return `Bearer ${stored.token}`;
+    }
+  }
 
-  console.log(chalk.dim('\nEnter admin credentials:'));
-  const username = await question('Username: ');
-
-  // Use muted input for password (or prompt without echo)
-  process.stdout.write('Password: ');
-  const password = await new Promise<string>((resolve) => {
-    let pwd = '';
-    process.stdin.setRawMode(true);
-    process.stdin.resume();
-    process.stdin.on('data', (char) => {
-      const c = char.toString();
-      if (c === '\n' || c === '\r') {
-        process.stdin.setRawMode(false);
-        process.stdout.write('\n');
-        resolve(pwd);
-      } else if (c === '\u007f') {
-        // Backspace
-        pwd = pwd.slice(0, -1);
-      } else {
-        pwd += c;
-      }
-    });
-  });
+  if (!process.stdin.isTTY) {
+    throw new Error(`Not logged in to ${shopUrl}. Run spwig login --shop ${shopUrl}, or set SPWIG_TOKEN`);
+  }
 
-  rl.close();
+  console.log(chalk.dim(rejected ? '\nSession expired. Enter admin credentials:' : '\nEnter admin credentials:'));
+  const { username, password } = await promptCredentials();
+  const token = await requestToken(shopUrl, username, password);
+  if (!token) {
+    // Shops without API tokens take the credentials directly
+    return `Basic ${Buffer.from(`${username}:${password}`).toString('base64')}`;
+  }
 
-  // Connect to shop
-  const credentials = Buffer.from(`${username}:${password}`).toString('base64');
+  await storeToken(shopUrl, token);
+  return `Bearer ${token.token}`;
+}
 
-  const response = await fetch(`${shopUrl}/api/theme-dev/connect/`, {
+/**
+ * @throws AuthenticationError when the shop rejects the authorization
+ */
+async function connectToShop(
+  shopUrl: string,
+  themeName: string,
+  themePath: string,
+  authorization: string
+): Promise<DevSession> {
+  const response = await request(`${shopUrl}/api/theme-dev/connect/`, {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
-      'Authorization': `Basic ${credentials}`,
+      'Authorization': authorization,
     },
     body: JSON.stringify({
       theme_name: themeName,
@@ -288,7 +519,8 @@ async function connectToShop(
 
   if (!response.ok) {
     const error = await response.json().catch(() => ({ error: response.statusText })) as { error?: string };
-    throw new Error(error.error || `Connection failed: ${response.status}`);
+    const message = error.error || `Connection failed: ${response.status}`;
+    throw response.status === 401 ? new AuthenticationError(message) : new Error(message);
   }
 
   return response.json() as Promise<DevSession>;
@@ -309,8 +541,43 @@ async function disconnectSession(shopUrl: string, token: string, spinner: Ora):
   }
 }
 
-async function collectThemeFiles(themePath: string): Promise<FileChange[]> {
-  const files: FileChange[] = [];
+/**
+ * Initial sync: send the shop a manifest of paths and checksums and upload only the files
+ * it needs, or every file when the shop predates the handshake
+ * @returns The sync result and the number of files the shop already had
+ */
+async function initialSync(
+  connection: ShopConnection,
+  themePath: string,
+  shopIndex: ShopIndex,
+  gate: SyncGate
+): Promise<{ result: SyncResult; unchanged: number }> {
+  const entries = await listThemeFiles(themePath);
+  const manifest = await sendManifest(connection, entries);
+  connection.incremental = manifest !== null;
+
+  const needed = manifest ? new Set(manifest.needed) : null;
+  const payload: SyncPayload = { files: [], deleted: manifest?.stale || [], renamed: [] };
+  for (const entry of entries) {
+    if (needed && !needed.has(entry.path)) {
+      shopIndex.set(entry.path, entry.checksum);
+    } else {
+      payload.files.push(await readFileChange(themePath, entry.path));
+    }
+  }
+  const unchanged = entries.length - payload.files.length;
+  payload.files = await gateFiles(gate, themePath, payload.files);
+
+  const result =
+    payload.files.length + payload.deleted.length > 0
+      ? await syncFiles(connection, payload)
+      : { success: true, synced: [], errors: [], reload_type: 'none' };
+  updateShopIndex(shopIndex, payload, result);
+  return { result, unchanged };
+}
+
+async function listThemeFiles(themePath: string): Promise<FileEntry[]> {
+  const files: FileEntry[] = [];
 
   const walk = async (dir: string): Promise<void> => {
     const entries = await fs.readdir(dir, { withFileTypes: true });
@@ -328,14 +595,10 @@ async function collectThemeFiles(themePath: string): Promise<FileChange[]> {
         await walk(fullPath);
       } else if (entry.isFile()) {
         const content = await fs.readFile(fullPath);
-        const ext = path.extname(entry.name).toLowerCase();
-        const isBinary = BINARY_EXTENSIONS.includes(ext);
-
         files.push({
           path: relativePath,
-          content: isBinary ? content.toString('base64') : content.toString('utf-8'),
           checksum: crypto.createHash('sha256').update(content).digest('hex'),
-          encoding: isBinary ? 'base64' : 'utf-8',
+          size: content.length,
         });
       }
     }
@@ -345,15 +608,325 @@ async function collectThemeFiles(themePath: string): Promise<FileChange[]> {
   return files;
 }
 
-async function syncFiles(shopUrl: string, token: string, files: FileChange[]): Promise<SyncResult> {
-  const response = await fetch(`${shopUrl}/api/theme-dev/sync/`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'X-Dev-Token': token,
-    },
-    body: JSON.stringify({ files }),
+async function readFileChange(themePath: string, relativePath: string): Promise<FileChange> {
+  const content = await fs.readFile(path.join(themePath, relativePath));
+  const ext = path.extname(relativePath).toLowerCase();
+  const isBinary = BINARY_EXTENSIONS.includes(ext);
+
+  return {
+    path: relativePath,
+    content: isBinary ? content.toString('base64') : content.toString('utf-8'),
+    checksum: crypto.createHash('sha256').update(content).digest('hex'),
+    encoding: isBinary ? 'base64' : 'utf-8',
+  };
+}
+
+/**
+ * Sync changed paths against what the shop has: new and modified files are uploaded,
+ * missing ones deleted, and a deleted file reappearing under another path with the
+ * same content is sent as a rename. Uploads are validated locally first.
+ * @throws ConnectionError when the shop can't be reached
+ */
+async function syncChanges(
+  connection: ShopConnection,
+  themePath: string,
+  shopIndex: ShopIndex,
+  changedPaths: string[],
+  gate: SyncGate
+): Promise<void> {
+  const payload: SyncPayload = { files: [], deleted: [], renamed: [] };
+
+  for (const relativePath of changedPaths) {
+    let file: FileChange;
+    try {
+      file = await readFileChange(themePath, relativePath);
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.log(`${chalk.red('✗')} ${chalk.dim(relativePath)} ${chalk.red('read error')}`);
+      } else if (shopIndex.has(relativePath)) {
+        payload.deleted.push(relativePath);
+      }
+      continue;
+    }
+
+    // Unchanged (e.g., touched or saved without edits)
+    if (shopIndex.get(relativePath) !== file.checksum) {
+      payload.files.push(file);
+    }
+  }
+
+  for (const deleted of [...payload.deleted]) {
+    const added = payload.files.find(file => !shopIndex.has(file.path) && file.checksum === shopIndex.get(deleted));
+    if (added) {
+      payload.renamed.push({ from: deleted, to: added.path });
+      payload.files.splice(payload.files.indexOf(added), 1);
+      payload.deleted.splice(payload.deleted.indexOf(deleted), 1);
+    }
+  }
+
+  payload.files = await gateFiles(gate, themePath, payload.files);
+
+  if (payload.files.length + payload.deleted.length + payload.renamed.length === 0) {
+    return;
+  }
+
+  let result: SyncResult;
+  try {
+    result = await syncFiles(connection, payload);
+  } catch (err) {
+    if (err instanceof ConnectionError) {
+      throw err;
+    }
+    console.log(`${chalk.red('✗')} ${chalk.red('Sync failed:')} ${err instanceof Error ? err.message : err}`);
+    return;
+  }
+  updateShopIndex(shopIndex, payload, result);
+  try {
+    result = await resendRenames(connection, themePath, shopIndex, payload, result);
+  } catch (err) {
+    if (err instanceof ConnectionError) {
+      throw err;
+    }
+    console.log(`${chalk.red('✗')} ${chalk.red('Sync failed:')} ${err instanceof Error ? err.message : err}`);
+  }
+
+  const icon = result.reload_type === 'css' ? '🎨' : '🔄';
+  for (const file of payload.files) {
+    if (shopIndex.get(file.path) === file.checksum) {
+      console.log(`${icon} ${chalk.dim(file.path)} ${chalk.green('synced')}`);
+    } else {
+      console.log(`${chalk.red('✗')} ${chalk.dim(file.path)} ${chalk.red('failed')}`);
+    }
+  }
+  for (const rename of payload.renamed) {
+    if (shopIndex.has(rename.to)) {
+      console.log(`${chalk.cyan('↪')} ${chalk.dim(rename.from)} → ${chalk.dim(rename.to)} ${chalk.cyan('renamed')}`);
+    } else {
+      console.log(`${chalk.red('✗')} ${chalk.dim(rename.from)} → ${chalk.dim(rename.to)} ${chalk.red('rename failed')}`);
+    }
+  }
+  for (const deleted of payload.deleted) {
+    if (!shopIndex.has(deleted)) {
+      console.log(`${chalk.yellow('⊖')} ${chalk.dim(deleted)} ${chalk.yellow('deleted')}`);
+    } else {
+      console.log(`${chalk.red('✗')} ${chalk.dim(deleted)} ${chalk.red('delete failed')}`);
+    }
+  }
+  result.errors.forEach(err => console.log(chalk.red(`    ${err}`)));
+}
+
+/**
+ * Validate files about to be synced and, with --strict, drop tokens.json and presets with errors
+ */
+async function gateFiles(gate: SyncGate, themePath: string, files: FileChange[]): Promise<FileChange[]> {
+  const invalid = await checkFiles(gate, themePath, files);
+  if (!gate.strict) {
+    return files;
+  }
+
+  return files.filter(file => {
+    if (!invalid.has(file.path) || !STRICT_FILES.test(file.path)) {
+      return true;
+    }
+    console.log(`${chalk.red('✗')} ${chalk.dim(file.path)} ${chalk.red('not synced')} ${chalk.dim('(--strict: fix the errors first)')}`);
+    return false;
   });
+}
+
+/**
+ * Validate the theme and print the diagnostics for the files about to be synced
+ * @returns Paths of the files with errors
+ */
+async function checkFiles(gate: SyncGate, themePath: string, files: FileChange[]): Promise<Set<string>> {
+  const invalid = new Set<string>();
+  const checked = files.filter(file => CHECKED_EXTENSIONS.includes(path.extname(file.path).toLowerCase()));
+  if (checked.length === 0) {
+    return invalid;
+  }
+
+  let result: ValidationResult;
+  try {
+    result = await gate.validator.validate();
+  } catch (err) {
+    console.log(`${chalk.yellow('⚠')} ${chalk.yellow('Local validation failed:')} ${err instanceof Error ? err.message : err}`);
+    return invalid;
+  }
+
+  for (const file of checked) {
+    const filePath = path.join(themePath, file.path);
+    const errors = result.errors.filter(error => error.path === filePath);
+    const warnings = result.warnings.filter(warning => warning.path === filePath);
+
+    errors.forEach(error => console.log(`  ${chalk.red('✗')} ${formatLocation(error, themePath)}${error.message}`));
+    if (gate.verbose) {
+      warnings.forEach(warning => console.log(`  ${chalk.yellow('⚠')} ${formatLocation(warning, themePath)}${warning.message}`));
+    } else if (warnings.length > 0) {
+      console.log(chalk.dim(`  ${file.path}: ${warnings.length} warning(s), run with --verbose to list them`));
+    }
+
+    if (errors.length > 0) {
+      invalid.add(file.path);
+    }
+  }
+  return invalid;
+}
+
+/**
+ * Record the parts of a sync the shop applied. Uploads count as applied when the sync
+ * succeeded, or when the shop lists them as synced. Deletes and renames only count when
+ * the shop lists them, since shops that predate them succeed without applying them.
+ */
+function updateShopIndex(shopIndex: ShopIndex, payload: SyncPayload, result: SyncResult): void {
+  for (const file of payload.files) {
+    if (result.success || result.synced.includes(file.path)) {
+      shopIndex.set(file.path, file.checksum);
+    }
+  }
+  for (const rename of payload.renamed) {
+    if (result.renamed?.includes(rename.to)) {
+      shopIndex.set(rename.to, shopIndex.get(rename.from)!);
+      shopIndex.delete(rename.from);
+    }
+  }
+  for (const deleted of payload.deleted) {
+    if (result.deleted?.includes(deleted)) {
+      shopIndex.delete(deleted);
+    }
+  }
+}
+
+/**
+ * Send renames the shop didn't apply again as an upload of the new path and a delete of the old one
+ */
+async function resendRenames(
+  connection: ShopConnection,
+  themePath: string,
+  shopIndex: ShopIndex,
+  payload: SyncPayload,
+  result: SyncResult
+): Promise<SyncResult> {
+  const unapplied = payload.renamed.filter(rename => !shopIndex.has(rename.to));
+  if (unapplied.length === 0) {
+    return result;
+  }
+
+  const retry: SyncPayload = { files: [], deleted: [], renamed: [] };
+  for (const rename of unapplied) {
+    try {
+      retry.files.push(await readFileChange(themePath, rename.to));
+      retry.deleted.push(rename.from);
+    } catch {
+      // Moved again since; the watcher reports that change
+    }
+  }
+  payload.renamed = payload.renamed.filter(rename => !unapplied.includes(rename));
+  if (retry.files.length === 0) {
+    return result;
+  }
+
+  const retryResult = await syncFiles(connection, retry);
+  updateShopIndex(shopIndex, retry, retryResult);
+  payload.files.push(...retry.files);
+  payload.deleted.push(...retry.deleted);
+  return mergeResults([result, retryResult]);
+}
+
+/**
+ * Send the paths and checksums of the theme files
+ * @returns What the shop needs, or null when it doesn't support the handshake
+ */
+async function sendManifest(connection: ShopConnection, files: FileEntry[]): Promise<ManifestResult | null> {
+  const response = await postJson(connection, 'sync/manifest', { files });
+  if (response.status === 404) {
+    return null;
+  }
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: response.statusText })) as { error?: string };
+    throw new Error(error.error || `Sync failed: ${response.status}`);
+  }
+
+  return response.json() as Promise<ManifestResult>;
+}
+
+/**
+ * Sync files, deletes and renames. With an incremental shop, large files are uploaded
+ * in chunks first and the rest is split into requests of up to MAX_BATCH_SIZE.
+ */
+async function syncFiles(connection: ShopConnection, payload: SyncPayload): Promise<SyncResult> {
+  if (!connection.incremental) {
+    return postSync(connection, payload);
+  }
+
+  // Deletes and renames go with the first request
+  const batches: SyncPayload[] = [{ files: [], deleted: payload.deleted, renamed: payload.renamed }];
+  let batchSize = 0;
+
+  for (const file of payload.files) {
+    const data = Buffer.from(file.content || '', file.encoding);
+    if (data.length > CHUNK_SIZE) {
+      const chunks = await uploadChunks(connection, file, data);
+      batches[0].files.push({ path: file.path, checksum: file.checksum, encoding: file.encoding, chunks });
+      continue;
+    }
+
+    if (batchSize > 0 && batchSize + data.length > MAX_BATCH_SIZE) {
+      batches.push({ files: [], deleted: [], renamed: [] });
+      batchSize = 0;
+    }
+    batches[batches.length - 1].files.push(file);
+    batchSize += data.length;
+  }
+
+  const results: SyncResult[] = [];
+  for (const batch of batches) {
+    results.push(await postSync(connection, batch));
+  }
+  return mergeResults(results);
+}
+
+/**
+ * Combine the results of several sync requests
+ */
+function mergeResults(results: SyncResult[]): SyncResult {
+  return {
+    success: results.every(result => result.success),
+    synced: results.flatMap(result => result.synced),
+    deleted: results.flatMap(result => result.deleted || []),
+    renamed: results.flatMap(result => result.renamed || []),
+    errors: results.flatMap(result => result.errors),
+    // A full reload covers CSS-only changes
+    reload_type: results.find(result => result.reload_type !== 'css')?.reload_type || 'css',
+  };
+}
+
+/**
+ * Upload a file in CHUNK_SIZE pieces, which the shop assembles when the sync
+ * request lists the file with its chunk count
+ * @returns Number of chunks
+ */
+async function uploadChunks(connection: ShopConnection, file: FileChange, data: Buffer): Promise<number> {
+  const total = Math.ceil(data.length / CHUNK_SIZE);
+
+  for (let index = 0; index < total; index++) {
+    const response = await postJson(connection, 'sync/chunk', {
+      path: file.path,
+      checksum: file.checksum,
+      index,
+      total,
+      content: data.subarray(index * CHUNK_SIZE, (index + 1) * CHUNK_SIZE).toString('base64'),
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ error: response.statusText })) as { error?: string };
+      throw new Error(error.error || `Upload of ${file.path} failed: ${response.status}`);
+    }
+  }
+
+  return total;
+}
+
+async function postSync(connection: ShopConnection, payload: SyncPayload): Promise<SyncResult> {
+  const response = await postJson(connection, 'sync', payload);
 
   if (!response.ok) {
     const error = await response.json().catch(() => ({ error: response.statusText })) as { error?: string };
@@ -363,6 +936,79 @@ async function syncFiles(shopUrl: string, token: string, files: FileChange[]): P
   return response.json() as Promise<SyncResult>;
 }
 
+/**
+ * POST JSON to a theme-dev endpoint, gzip-compressed for shops that support it.
+ * Renews the dev session when it is about to expire, or when the shop rejects it, and retries once.
+ */
+async function postJson(
+  connection: ShopConnection,
+  endpoint: string,
+  body: unknown,
+  signal?: AbortSignal
+): Promise<Response> {
+  const json = JSON.stringify(body);
+  const data = connection.incremental ? zlib.gzipSync(json) : json;
+
+  const send = () => {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'X-Dev-Token': connection.token,
+    };
+    if (connection.incremental) {
+      headers['Content-Encoding'] = 'gzip';
+    }
+    return request(`${connection.shopUrl}/api/theme-dev/${endpoint}/`, { method: 'POST', headers, body: data, signal });
+  };
+
+  if (isExpired(connection.expiresAt, SESSION_RENEW_MARGIN_MS)) {
+    await connection.renew();
+  }
+
+  const response = await send();
+  if (response.status !== 401) {
+    return response;
+  }
+  await connection.renew();
+  return send();
+}
+
+/**
+ * Check the shop is reachable, renewing the session when it is about to expire.
+ * Shops without the heartbeat endpoint answer 404, which is enough to know they are up.
+ */
+async function sendHeartbeat(connection: ShopConnection): Promise<void> {
+  const response = await postJson(connection, 'heartbeat', {}, AbortSignal.timeout(HEARTBEAT_TIMEOUT_MS));
+  if (!response.ok) {
+    return;
+  }
+
+  // Shops may extend the session on each heartbeat
+  const { expires_at } = await response.json().catch(() => ({})) as { expires_at?: string };
+  if (expires_at) {
+    connection.expiresAt = expires_at;
+  }
+}
+
+/**
+ * fetch, failing with a ConnectionError when the shop can't be reached, times out or is restarting
+ */
+async function request(url: string, init: RequestInit): Promise<Response> {
+  let response: Response;
+  try {
+    response = await fetch(url, init);
+  } catch (error) {
+    // Node reports network errors as "fetch failed", with the reason in the cause
+    const cause = (error as { cause?: unknown }).cause;
+    const reason = cause instanceof Error ? cause.message : error instanceof Error ? error.message : String(error);
+    throw new ConnectionError(reason);
+  }
+
+  if (UNAVAILABLE_STATUSES.includes(response.status)) {
+    throw new ConnectionError(`shop unavailable (${response.status} ${response.statusText})`);
+  }
+  return response;
+}
+
 async function validateTheme(shopUrl: string, token: string): Promise<{
   is_valid: boolean;
   errors: string[];
@@ -370,7 +1016,7 @@ async function validateTheme(shopUrl: string, token: string): Promise<{
   error_count: number;
   warning_count: number;
 }> {
-  const response = await fetch(`${shopUrl}/api/theme-dev/validate/`, {
+  const response = await request(`${shopUrl}/api/theme-dev/validate/`, {
     method: 'GET',
     headers: {
       'X-Dev-Token': token,
@@ -244,7 +244,7 @@ async function createThemeStructure(
   );
 
   // Create .gitignore
-  const fs = await import('fs-extra');
+  const { default: fs } = await import('fs-extra');
   await fs.writeFile(
     path.join(themePath, '.gitignore'),
     `node_modules/\ndist/\n*.log\n.DS_Store\nThumbs.db\n`
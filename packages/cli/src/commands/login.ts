@@ -0,0 +1,153 @@
+/**
+ * Login and logout commands
+ * Exchange admin credentials for a shop API token that spwig dev reuses
+ */
+
+import chalk from 'chalk';
+import inquirer from 'inquirer';
+import ora from 'ora';
+import {
+  StoredToken,
+  getCredentialsPath,
+  listStoredShops,
+  normalizeShopUrl,
+  readStoredToken,
+  removeStoredToken,
+  storeToken,
+} from '../utils/credentials.js';
+
+export interface LoginOptions {
+  /** Shop URL (e.g., http://localhost:8000) */
+  shop: string;
+  /** Admin username; prompted for when omitted */
+  username?: string;
+}
+
+export interface LogoutOptions {
+  /** Shop to log out of; every shop with a stored token when omitted */
+  shop?: string;
+}
+
+export async function loginCommand(options: LoginOptions): Promise<number> {
+  console.log(chalk.blue.bold('\n🔑 Spwig Theme SDK - Log In\n'));
+
+  const shopUrl = normalizeShopUrl(options.shop);
+  if (!process.stdin.isTTY) {
+    console.error(
+      chalk.red('Error:'),
+      'spwig login needs an interactive terminal. In scripts and CI, set SPWIG_TOKEN or pass --token to spwig dev.'
+    );
+    return 1;
+  }
+
+  console.log(chalk.gray('Shop:'), shopUrl);
+  const { username, password } = await promptCredentials(options.username);
+
+  const spinner = ora('Logging in...').start();
+  let token: StoredToken | null;
+  try {
+    token = await requestToken(shopUrl, username, password);
+  } catch (error) {
+    spinner.fail('Login failed');
+    console.error(chalk.red('\nError:'), error instanceof Error ? error.message : error);
+    return 1;
+  }
+
+  if (!token) {
+    spinner.fail("This shop doesn't issue API tokens");
+    console.log(chalk.gray('Update the shop, or let spwig dev prompt for credentials each time.'));
+    return 1;
+  }
+
+  await storeToken(shopUrl, token);
+  spinner.succeed(`Logged in to ${shopUrl} as ${chalk.green(token.username || username)}`);
+  console.log(chalk.gray('Token stored in'), getCredentialsPath());
+  if (token.expires_at) {
+    console.log(chalk.gray('Expires:'), new Date(token.expires_at).toLocaleString());
+  }
+  return 0;
+}
+
+export async function logoutCommand(options: LogoutOptions): Promise<number> {
+  const shops = options.shop ? [normalizeShopUrl(options.shop)] : await listStoredShops();
+  if (shops.length === 0) {
+    console.log(chalk.gray('Not logged in to any shop'));
+    return 0;
+  }
+
+  for (const shopUrl of shops) {
+    // Revoke the token on the shop too; it is removed locally either way
+    const stored = await readStoredToken(shopUrl);
+    if (stored) {
+      await fetch(`${shopUrl}/api/theme-dev/logout/`, {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${stored.token}` },
+      }).catch(() => undefined);
+    }
+
+    if (await removeStoredToken(shopUrl)) {
+      console.log(chalk.green('✓'), `Logged out of ${shopUrl}`);
+    } else {
+      console.log(chalk.gray(`Not logged in to ${shopUrl}`));
+    }
+  }
+  return 0;
+}
+
+/**
+ * Prompt for admin credentials
+ */
+export async function promptCredentials(username?: string): Promise<{ username: string; password: string }> {
+  const answers = await inquirer.prompt([
+    {
+      type: 'input',
+      name: 'username',
+      message: 'Username:',
+      when: !username,
+      validate: (input: string) => (input.length > 0 ? true : 'Username is required'),
+    },
+    {
+      type: 'password',
+      name: 'password',
+      message: 'Password:',
+      mask: '*',
+      validate: (input: string) => (input.length > 0 ? true : 'Password is required'),
+    },
+  ]);
+
+  return { username: username || answers.username, password: answers.password };
+}
+
+/**
+ * Exchange admin credentials for an API token
+ * @returns null when the shop predates API tokens
+ * @throws When the shop rejects the credentials
+ */
+export async function requestToken(shopUrl: string, username: string, password: string): Promise<StoredToken | null> {
+  const credentials = Buffer.from(`${username}:${password}`).toString('base64');
+
+  const response = await fetch(`${normalizeShopUrl(shopUrl)}/api/theme-dev/login/`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Basic ${credentials}`,
+    },
+    body: JSON.stringify({
+      client_info: {
+        cli_version: '2.0.0',
+        node_version: process.version,
+        os: process.platform,
+      },
+    }),
+  });
+
+  if (response.status === 404) {
+    return null;
+  }
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: response.statusText })) as { error?: string };
+    throw new Error(error.error || `Login failed: ${response.status}`);
+  }
+
+  return response.json() as Promise<StoredToken>;
+}
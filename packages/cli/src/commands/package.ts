@@ -9,14 +9,22 @@ import path from 'path';
 import fs from 'fs-extra';
 import archiver from 'archiver';
 import crypto from 'crypto';
-import { ThemeValidator } from '@spwig/theme-validator';
-import type { ThemeManifest } from '@spwig/theme-validator';
+import os from 'os';
+import {
+  ThemeValidator,
+  TokenResolver,
+  CONFIG_FILE_NAME,
+  contentChecksum,
+  isExcludedFromPackage,
+} from '@spwig/theme-validator';
+import type { ThemeManifest, ValidatorConfig } from '@spwig/theme-validator';
 
 export interface PackageOptions {
   output?: string;
   name?: string;
   validate?: boolean;
   checksum?: 'sha256' | 'md5';
+  flattenTokens?: boolean;
 }
 
 interface PackageMetadata {
@@ -99,7 +107,7 @@ export async function packageCommand(themePath: string, options: PackageOptions)
   const spinner = ora('Creating package...').start();
 
   try {
-    const packageInfo = await createPackage(absolutePath, outputPath, manifest);
+    const packageInfo = await createPackage(absolutePath, outputPath, manifest, options);
     spinner.succeed('Package created successfully');
 
     console.log();
@@ -123,11 +131,11 @@ export async function packageCommand(themePath: string, options: PackageOptions)
 async function createPackage(
   themePath: string,
   outputPath: string,
-  manifest: ThemeManifest
+  manifest: ThemeManifest,
+  options: PackageOptions
 ): Promise<PackageInfo> {
-  // Create temporary build directory
-  const buildDir = path.join(path.dirname(outputPath), `build_${manifest.name}_${Date.now()}`);
-  await fs.ensureDir(buildDir);
+  // Create temporary build directory outside the theme, which may contain the output directory
+  const buildDir = await fs.mkdtemp(path.join(os.tmpdir(), `build_${manifest.name}_`));
 
   try {
     // Copy theme to build directory
@@ -136,6 +144,11 @@ async function createPackage(
     // Clean build directory
     await cleanBuildDir(buildDir);
 
+    // Replace token references with literal values
+    if (options.flattenTokens) {
+      await flattenTokens(buildDir);
+    }
+
     // Calculate metadata
     const metadata = await calculateMetadata(buildDir);
 
@@ -176,34 +189,32 @@ async function createPackage(
  * Copy theme directory to build directory
  */
 async function copyToBuildDir(themePath: string, buildDir: string): Promise<void> {
-  const ignorePatterns = [
-    '__pycache__',
-    '*.pyc',
-    '.DS_Store',
-    '.git',
-    '.gitignore',
-    'node_modules',
-    '.env',
-    '*.log',
-    'dist',
-    'build',
-    '.vscode',
-    '.idea',
-  ];
+  // Custom validation rule modules are development files too
+  const pluginPaths = new Set((await readPluginPaths(themePath)).map((plugin) => path.resolve(themePath, plugin)));
 
   await fs.copy(themePath, buildDir, {
     filter: (src) => {
       const basename = path.basename(src);
-      return !ignorePatterns.some((pattern) => {
-        if (pattern.startsWith('*')) {
-          return basename.endsWith(pattern.substring(1));
-        }
-        return basename === pattern;
-      });
+      if (pluginPaths.has(path.resolve(src))) {
+        return false;
+      }
+      return !isExcludedFromPackage(basename);
     },
   });
 }
 
+/**
+ * Rule plugin modules listed in the theme's .spwigrc.json
+ */
+async function readPluginPaths(themePath: string): Promise<string[]> {
+  try {
+    const config: ValidatorConfig = await fs.readJSON(path.join(themePath, CONFIG_FILE_NAME));
+    return Array.isArray(config.plugins) ? config.plugins.filter((plugin) => typeof plugin === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
 /**
  * Clean build directory of unwanted files
  */
@@ -227,13 +238,26 @@ async function cleanBuildDir(buildDir: string): Promise<void> {
   }
 }
 
+/**
+ * Rewrite tokens.json with every {category.key} reference resolved
+ */
+async function flattenTokens(buildDir: string): Promise<void> {
+  const tokensPath = path.join(buildDir, 'tokens.json');
+  if (!(await fs.pathExists(tokensPath))) {
+    return;
+  }
+
+  const tokens = await fs.readJSON(tokensPath);
+  await fs.writeJSON(tokensPath, new TokenResolver(tokens).resolveAll(), { spaces: 2 });
+}
+
 /**
  * Calculate package metadata (file count, size, checksum)
  */
 async function calculateMetadata(buildDir: string): Promise<PackageMetadata> {
   let fileCount = 0;
   let totalSize = 0;
-  const fileHashes: string[] = [];
+  const fileHashes = new Map<string, string>();
 
   const files = await getAllFiles(buildDir);
 
@@ -241,24 +265,14 @@ async function calculateMetadata(buildDir: string): Promise<PackageMetadata> {
     const stats = await fs.stat(file);
     fileCount++;
     totalSize += stats.size;
-
-    // Don't include manifest.json in checksum (will be updated)
-    if (path.basename(file) !== 'manifest.json') {
-      const hash = await calculateFileChecksum(file);
-      fileHashes.push(hash);
-    }
-  }
-
-  // Calculate overall checksum from sorted file hashes
-  const combinedHash = crypto.createHash('sha256');
-  for (const hash of fileHashes.sort()) {
-    combinedHash.update(hash);
+    fileHashes.set(file, await calculateFileChecksum(file));
   }
 
   return {
     file_count: fileCount,
     total_size: totalSize,
-    checksum: `sha256:${combinedHash.digest('hex')}`,
+    // manifest.json is left out, since it will hold the checksum
+    checksum: contentChecksum(fileHashes),
   };
 }
 
@@ -271,11 +285,24 @@ async function updateManifestWithMetadata(
 ): Promise<void> {
   const manifestPath = path.join(buildDir, 'manifest.json');
   const manifest = await fs.readJSON(manifestPath);
+  const otherFilesSize = metadata.total_size - (await fs.stat(manifestPath)).size;
 
-  manifest.total_size_bytes = metadata.total_size;
   manifest.file_count = metadata.file_count;
   manifest.checksum = metadata.checksum;
 
+  // total_size_bytes includes the rewritten manifest.json, whose size depends on the number
+  // written into it; settle on a value that accounts for its own digits
+  let manifestSize = 0;
+  for (let attempt = 0; attempt < 10; attempt++) {
+    manifest.total_size_bytes = otherFilesSize + manifestSize;
+    const size = Buffer.byteLength(JSON.stringify(manifest, null, 2) + '\n');
+    if (size === manifestSize) {
+      break;
+    }
+    manifestSize = size;
+  }
+  metadata.total_size = manifest.total_size_bytes;
+
   await fs.writeJSON(manifestPath, manifest, { spaces: 2 });
 }
 
@@ -345,7 +372,7 @@ async function getAllFiles(dir: string): Promise<string[]> {
 async function findFiles(dir: string, pattern: string): Promise<string[]> {
   // Simple implementation - would use glob in production
   const files: string[] = [];
-  const extension = pattern.includes('*') ? pattern.split('*')[1] : null;
+  const extension = pattern.includes('*') ? pattern.slice(pattern.lastIndexOf('*') + 1) : null;
 
   async function walk(currentPath: string) {
     const entries = await fs.readdir(currentPath, { withFileTypes: true });
@@ -0,0 +1,211 @@
+/**
+ * Preview command
+ * Serves an offline storefront mock styled by the theme's tokens and overrides
+ */
+
+import path from 'path';
+import { fileURLToPath } from 'url';
+import chalk from 'chalk';
+import fs from 'fs-extra';
+import express, { Response } from 'express';
+import chokidar from 'chokidar';
+import open from 'open';
+import { PLATFORM_CSS_PATH, TokenCompiler } from '@spwig/theme-validator';
+import type { ThemeManifest } from '@spwig/theme-validator';
+import { readTemplate } from '../utils/file-system.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+export interface PreviewOptions {
+  port?: number | string;
+  open?: boolean;
+  verbose?: boolean;
+}
+
+// Files whose changes only need a stylesheet swap; anything else reloads the page
+const CSS_SOURCES = ['tokens.json', 'overrides.css'];
+
+const IMPORT_PATTERN = /@import\s+(?:url\()?\s*['"]?([^'")\s;]+)['"]?\s*\)?[^;]*;/g;
+
+export async function previewCommand(themePath: string, options: PreviewOptions): Promise<void> {
+  const absoluteThemePath = path.resolve(themePath);
+  const manifestPath = path.join(absoluteThemePath, 'manifest.json');
+
+  if (!(await fs.pathExists(manifestPath))) {
+    console.error(chalk.red('Error: manifest.json not found. Are you in a theme directory?'));
+    process.exit(1);
+  }
+
+  const templatesDir = path.join(__dirname, '../templates/preview');
+  const port = Number(options.port || 3000);
+  const clients = new Set<Response>();
+
+  // Last successfully compiled CSS, served while tokens.json is mid-edit and invalid
+  let themeCss = '';
+
+  const rebuildCss = async (): Promise<boolean> => {
+    try {
+      themeCss = await buildThemeCss(absoluteThemePath);
+      return true;
+    } catch (error) {
+      console.log(`${chalk.red('✗')} ${error instanceof Error ? error.message : error}`);
+      return false;
+    }
+  };
+
+  const broadcast = (event: 'css' | 'reload') => {
+    for (const client of clients) {
+      client.write(`event: ${event}\ndata: ${Date.now()}\n\n`);
+    }
+  };
+
+  await rebuildCss();
+
+  const app = express();
+
+  app.get('/', async (_req, res) => {
+    const manifest: Partial<ThemeManifest> = await fs.readJSON(manifestPath).catch(() => ({}));
+    const html = await readTemplate(path.join(templatesDir, 'index.html.template'), {
+      displayName: escapeHtml(manifest.display_name || manifest.name || 'Theme Preview'),
+      description: escapeHtml(manifest.description || ''),
+      author: escapeHtml(manifest.author || ''),
+      year: new Date().getFullYear().toString(),
+    });
+    res.type('html').send(html);
+  });
+
+  app.get('/theme.css', (_req, res) => {
+    res.type('css').set('Cache-Control', 'no-store').send(themeCss);
+  });
+
+  app.get('/platform-components.css', (_req, res) => {
+    res.sendFile(PLATFORM_CSS_PATH);
+  });
+
+  // Server-sent events for hot reload
+  app.get('/__spwig/events', (req, res) => {
+    res.set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+    res.flushHeaders();
+    clients.add(res);
+    req.on('close', () => clients.delete(res));
+  });
+
+  // Theme files (preview image, screenshots, fonts referenced by overrides.css)
+  app.use('/theme', express.static(absoluteThemePath, { dotfiles: 'ignore' }));
+
+  const server = app.listen(port);
+  await new Promise<void>((resolve, reject) => {
+    server.once('listening', resolve);
+    server.once('error', reject);
+  });
+
+  const watcher = chokidar.watch(absoluteThemePath, {
+    ignored: [/(^|[/\\])\../, '**/node_modules/**', '**/dist/**'],
+    ignoreInitial: true,
+    awaitWriteFinish: {
+      stabilityThreshold: 100,
+      pollInterval: 50,
+    },
+  });
+
+  watcher.on('all', async (event, filePath) => {
+    const relativePath = path.relative(absoluteThemePath, filePath);
+
+    if (CSS_SOURCES.includes(relativePath)) {
+      if (await rebuildCss()) {
+        console.log(`🎨 ${chalk.dim(relativePath)} ${chalk.green('reloaded')}`);
+        broadcast('css');
+      }
+    } else {
+      if (options.verbose) {
+        console.log(`🔄 ${chalk.dim(relativePath)} ${chalk.dim(event)}`);
+      }
+      broadcast('reload');
+    }
+  });
+
+  const shutdown = async () => {
+    console.log(chalk.yellow('\n\nShutting down preview server...'));
+    await watcher.close();
+    for (const client of clients) {
+      client.end();
+    }
+    server.close();
+    process.exit(0);
+  };
+
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+
+  const previewUrl = `http://localhost:${port}`;
+  console.log(chalk.blue(`\n👀 Spwig Theme SDK v2.0 - Preview\n`));
+  const manifest: Partial<ThemeManifest> = await fs.readJSON(manifestPath).catch(() => ({}));
+  console.log(`Theme: ${chalk.bold(manifest.name || path.basename(absoluteThemePath))}`);
+  console.log(`Preview: ${chalk.cyan(previewUrl)}`);
+  console.log(`Watch: ${chalk.dim('Watching for file changes...')}\n`);
+  console.log(chalk.dim('Press Ctrl+C to stop\n'));
+
+  if (options.open !== false) {
+    await open(previewUrl);
+  }
+}
+
+/**
+ * Build the theme stylesheet the way the platform combines it:
+ * compiled tokens first, then overrides.css. Relative @imports are stripped and
+ * external ones are hoisted to the top, where browsers require them.
+ */
+async function buildThemeCss(themePath: string): Promise<string> {
+  const tokensPath = path.join(themePath, 'tokens.json');
+  const overridesPath = path.join(themePath, 'overrides.css');
+  const manifest: Partial<ThemeManifest> = await fs
+    .readJSON(path.join(themePath, 'manifest.json'))
+    .catch(() => ({}));
+
+  const imports: string[] = [];
+  const parts: string[] = [];
+
+  if (await fs.pathExists(tokensPath)) {
+    let tokens;
+    try {
+      tokens = await fs.readJSON(tokensPath);
+    } catch (error) {
+      throw new Error(`tokens.json: ${error instanceof Error ? error.message : error}`);
+    }
+    parts.push(
+      new TokenCompiler().compile(tokens, {
+        darkMode: manifest.features?.dark_mode === true,
+        header: 'tokens.json',
+      })
+    );
+  }
+
+  if (await fs.pathExists(overridesPath)) {
+    const overrides = await fs.readFile(overridesPath, 'utf-8');
+    const withoutImports = overrides.replace(IMPORT_PATTERN, (rule, url: string) => {
+      if (/^(https?:)?\/\//.test(url)) {
+        imports.push(rule);
+      }
+      return '';
+    });
+    parts.push('/* overrides.css */\n' + withoutImports);
+  }
+
+  return [...imports, ...parts].join('\n');
+}
+
+/**
+ * Escape manifest text for the HTML template
+ */
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,220 @@
+/**
+ * Release command
+ * Bumps the theme version, records a changelog entry, validates and packages
+ */
+
+import chalk from 'chalk';
+import ora from 'ora';
+import path from 'path';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import fs from 'fs-extra';
+import {
+  ThemeValidator,
+  applyTextEdits,
+  compareVersions,
+  incrementVersion,
+  parseJsonWithPointers,
+  parseSemver,
+} from '@spwig/theme-validator';
+import type { ChangelogEntry, JsonSourceMap, TextEdit, ThemeManifest } from '@spwig/theme-validator';
+import { packageCommand } from './package.js';
+import { formatLocation } from './validate.js';
+
+const execFileAsync = promisify(execFile);
+
+export interface ReleaseOptions {
+  /** Changelog lines for the release */
+  message?: string[];
+  /** Add the commit subjects since the last git tag to the changelog */
+  fromGit?: boolean;
+  /** Release date (YYYY-MM-DD, default today) */
+  date?: string;
+  /** Package the theme after releasing (default true) */
+  package?: boolean;
+  /** Package output directory */
+  output?: string;
+}
+
+/**
+ * @param release - "major", "minor", "patch" or an explicit version
+ */
+export async function releaseCommand(release: string, themePath: string, options: ReleaseOptions): Promise<number> {
+  console.log(chalk.blue.bold('\n🚀 Spwig Theme SDK - Release Theme\n'));
+
+  const absolutePath = path.resolve(themePath);
+  const manifestPath = path.join(absolutePath, 'manifest.json');
+  if (!(await fs.pathExists(manifestPath))) {
+    console.error(chalk.red('Error:'), `No manifest.json found in ${absolutePath}`);
+    return 1;
+  }
+
+  const text = await fs.readFile(manifestPath, 'utf-8');
+  let manifest: ThemeManifest;
+  let pointers: JsonSourceMap;
+  try {
+    ({ data: manifest, pointers } = parseJsonWithPointers<ThemeManifest>(text));
+  } catch (error) {
+    console.error(chalk.red('Error:'), `Failed to parse manifest.json: ${error instanceof Error ? error.message : error}`);
+    return 1;
+  }
+
+  const current = manifest.version;
+  const version = nextVersion(current, release);
+  if (!version) {
+    console.error(chalk.red('Error:'), `Cannot release "${release}" from version ${current}. Use major, minor, patch or a version above ${current}`);
+    return 1;
+  }
+
+  const date = options.date || today();
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    console.error(chalk.red('Error:'), `Invalid date "${date}". Use YYYY-MM-DD`);
+    return 1;
+  }
+
+  const changes = [...(options.message || [])];
+  if (options.fromGit) {
+    try {
+      changes.push(...(await gitChanges(absolutePath)));
+    } catch (error) {
+      console.error(chalk.red('Error:'), `Failed to read the git log: ${error instanceof Error ? error.message : error}`);
+      return 1;
+    }
+  }
+  if (changes.length === 0) {
+    console.error(chalk.red('Error:'), 'No changes for the changelog. Pass them with --message, or use --from-git');
+    return 1;
+  }
+
+  console.log(chalk.bold('Theme:'), manifest.display_name);
+  console.log(chalk.gray('Version:'), `${current} → ${version}`);
+  console.log(chalk.gray('Changes:'));
+  for (const change of changes) {
+    console.log(chalk.gray('  •'), change);
+  }
+  console.log();
+
+  const entry: ChangelogEntry = { version, date, changes };
+  const edits = [replaceValue(manifestPath, pointers, '/version', version), addChangelogEntry(manifestPath, pointers, entry)];
+  const updated = applyTextEdits(text, edits).text;
+
+  // Validate the released manifest before writing it
+  const spinner = ora('Validating theme...').start();
+  const result = await new ThemeValidator(absolutePath, {
+    overlay: new Map([[manifestPath, updated]]),
+  }).validate();
+
+  if (!result.isValid) {
+    spinner.fail(chalk.red('Validation failed'));
+    console.log();
+    console.log(chalk.red.bold(`❌ ERRORS (${result.errors.length}):`));
+    for (const error of result.errors) {
+      console.log(chalk.red('  •'), formatLocation(error, absolutePath) + error.message);
+    }
+    console.log();
+    console.error(chalk.red('manifest.json was not changed. Fix the errors and run spwig release again.'));
+    return 1;
+  }
+  spinner.succeed(
+    result.warnings.length > 0
+      ? `Theme validation passed with ${result.warnings.length} warning(s)`
+      : 'Theme validation passed'
+  );
+
+  await fs.writeFile(manifestPath, updated, 'utf-8');
+  console.log(chalk.green('✅ Updated manifest.json to'), version);
+
+  if (options.package !== false) {
+    await packageCommand(absolutePath, { output: options.output, validate: false });
+  }
+
+  console.log();
+  console.log(chalk.gray('Next steps:'));
+  console.log(chalk.gray(`  git commit -am "Release ${version}" && git tag v${version}`));
+  return 0;
+}
+
+/**
+ * Version after a release type, or an explicit version above the current one
+ */
+function nextVersion(current: string, release: string): string | null {
+  if (release === 'major' || release === 'minor' || release === 'patch') {
+    return incrementVersion(current, release);
+  }
+  const version = release.replace(/^v/, '');
+  if (!parseSemver(version) || !parseSemver(current) || compareVersions(version, current) <= 0) {
+    return null;
+  }
+  return version;
+}
+
+/**
+ * Subjects of the commits touching the theme since the last tag (or all of them without one)
+ */
+async function gitChanges(themePath: string): Promise<string[]> {
+  let range = 'HEAD';
+  try {
+    const { stdout } = await execFileAsync('git', ['describe', '--tags', '--abbrev=0'], { cwd: themePath });
+    range = `${stdout.trim()}..HEAD`;
+  } catch {
+    // No tags yet
+  }
+
+  const { stdout } = await execFileAsync('git', ['log', '--no-merges', '--format=%s', range, '--', '.'], {
+    cwd: themePath,
+  });
+  return stdout
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
+function replaceValue(filePath: string, pointers: JsonSourceMap, pointer: string, value: unknown): TextEdit {
+  const location = pointers.get(pointer);
+  if (!location) {
+    throw new Error(`manifest.json has no ${pointer.slice(1)}`);
+  }
+  return { path: filePath, start: location.value, end: location.valueEnd, newText: JSON.stringify(value) };
+}
+
+/**
+ * Edit putting an entry at the top of the changelog, adding the changelog when there is none
+ */
+function addChangelogEntry(filePath: string, pointers: JsonSourceMap, entry: ChangelogEntry): TextEdit {
+  const format = (indent: string) => JSON.stringify(entry, null, 2).replace(/\n/g, '\n' + indent);
+
+  const first = pointers.get('/changelog/0');
+  if (first) {
+    const indent = ' '.repeat(first.value.column - 1);
+    return { path: filePath, start: first.value, end: first.value, newText: `${format(indent)},\n${indent}` };
+  }
+
+  const changelog = pointers.get('/changelog');
+  const lastMember = [...pointers].filter(([pointer]) => /^\/[^/]+$/.test(pointer)).pop()?.[1];
+  if (changelog) {
+    // Empty changelog
+    const indent = ' '.repeat(changelog.key ? changelog.key.column - 1 : 0);
+    return {
+      path: filePath,
+      start: changelog.value,
+      end: changelog.valueEnd,
+      newText: `[\n${indent}  ${format(indent + '  ')}\n${indent}]`,
+    };
+  }
+  if (!lastMember?.key) {
+    throw new Error(`Cannot add a changelog to ${path.basename(filePath)}`);
+  }
+
+  const indent = ' '.repeat(lastMember.key.column - 1);
+  const newText = `,\n${indent}"changelog": [\n${indent}  ${format(indent + '  ')}\n${indent}]`;
+  return { path: filePath, start: lastMember.valueEnd, end: lastMember.valueEnd, newText };
+}
+
+/**
+ * Local date as YYYY-MM-DD
+ */
+function today(): string {
+  const now = new Date();
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+}
@@ -7,53 +7,155 @@ import chalk from 'chalk';
 import ora, { Ora } from 'ora';
 import path from 'path';
 import fs from 'fs-extra';
-import { ThemeValidator } from '@spwig/theme-validator';
+import { PackageValidator, ThemeValidator } from '@spwig/theme-validator';
+import type {
+  ImageInfo,
+  ThemeImages,
+  ValidationResult,
+  ValidationError,
+  ValidationWarning,
+} from '@spwig/theme-validator';
+import { ReportFormat, REPORT_FORMATS, formatReport } from '../utils/report-formats.js';
+import {
+  FixOutcome,
+  countFixable,
+  createUnifiedDiff,
+  fixTheme,
+  loadStarterTokens,
+  writeFixedFiles,
+} from '../utils/fixes.js';
 
 export interface ValidateOptions {
   verbose?: boolean;
+  format?: 'text' | ReportFormat;
+  output?: string;
+  /** Apply available fixes to the theme files before reporting */
+  fix?: boolean;
+  /** Print available fixes as a unified diff without changing any files */
+  fixDryRun?: boolean;
 }
 
 export async function validateCommand(targetPath: string = '.', options: ValidateOptions): Promise<number> {
-  console.log(chalk.blue.bold('\n🔍 Spwig Theme SDK - Validate Package\n'));
+  const format = options.format || 'text';
+  if (format !== 'text' && !REPORT_FORMATS.includes(format)) {
+    console.error(chalk.red('Error:'), `Unknown format "${format}". Use one of: text, ${REPORT_FORMATS.join(', ')}`);
+    return 1;
+  }
+
+  if (options.fixDryRun && format !== 'text' && !options.output) {
+    console.error(chalk.red('Error:'), '--fix-dry-run prints a diff, so a report format needs --output');
+    return 1;
+  }
+
+  // A report or diff printed to stdout must not be mixed with the human-readable output
+  const quiet = (format !== 'text' && !options.output) || options.fixDryRun === true;
+
+  if (!quiet) {
+    console.log(chalk.blue.bold('\n🔍 Spwig Theme SDK - Validate Package\n'));
+  }
 
   const absolutePath = path.resolve(targetPath);
 
-  // Check if directory exists
+  // A .zip built by spwig package is validated in place
+  const isZip = absolutePath.toLowerCase().endsWith('.zip');
+
+  // Check if directory or package exists
   if (!(await fs.pathExists(absolutePath))) {
-    console.error(chalk.red('Error:'), `Directory does not exist: ${absolutePath}`);
+    console.error(chalk.red('Error:'), `${isZip ? 'Package' : 'Directory'} does not exist: ${absolutePath}`);
+    return 1;
+  }
+
+  const isPackage = isZip && (await fs.stat(absolutePath)).isFile();
+  if (isPackage && (options.fix || options.fixDryRun)) {
+    console.error(chalk.red('Error:'), '--fix and --fix-dry-run work on theme directories, not packages');
     return 1;
   }
 
   // Verify manifest.json exists
   const manifestPath = path.join(absolutePath, 'manifest.json');
-  if (!(await fs.pathExists(manifestPath))) {
+  if (!isPackage && !(await fs.pathExists(manifestPath))) {
     console.error(chalk.red('Error:'), 'No manifest.json found');
     return 1;
   }
 
-  console.log(chalk.gray('Path:'), absolutePath);
-  console.log(chalk.gray('Type:'), 'theme');
-  console.log();
+  // Issues inside a package are reported as <package>.zip/<file>
+  const basePath = isPackage ? path.dirname(absolutePath) : absolutePath;
+
+  if (!quiet) {
+    console.log(chalk.gray('Path:'), absolutePath);
+    console.log(chalk.gray('Type:'), isPackage ? 'theme package' : 'theme');
+    console.log();
+  }
 
   // Run validation
-  const spinner = ora('Validating theme...').start();
+  const spinner = ora({ text: isPackage ? 'Validating package...' : 'Validating theme...', isSilent: quiet }).start();
 
+  let result: ValidationResult;
+  let outcome: FixOutcome | undefined;
   try {
-    return await validateTheme(absolutePath, options.verbose || false, spinner);
+    const starterTokens = await loadStarterTokens();
+    if (isPackage) {
+      result = await new PackageValidator().validate(absolutePath);
+    } else if (options.fix || options.fixDryRun) {
+      outcome = await fixTheme(absolutePath, starterTokens);
+      result = outcome.result;
+    } else {
+      result = await new ThemeValidator(absolutePath, { starterTokens }).validate();
+    }
   } catch (error) {
     spinner.fail('Validation failed with error');
     console.error(chalk.red('\nError:'), error instanceof Error ? error.message : error);
     return 1;
   }
+
+  if (outcome && options.fixDryRun) {
+    for (const file of outcome.files) {
+      const relativePath = path.relative(absolutePath, file.path).split(path.sep).join('/');
+      process.stdout.write(createUnifiedDiff(relativePath, file.original, file.fixed));
+    }
+    // Keep stdout a clean patch; the summary goes to stderr
+    console.error(chalk.gray(`${outcome.fixed} fixable issue(s) in ${outcome.files.length} file(s)`));
+  } else if (outcome && outcome.files.length > 0) {
+    await writeFixedFiles(outcome.files);
+  }
+
+  if (format !== 'text') {
+    const report = formatReport(format, result, absolutePath);
+    if (options.output) {
+      await fs.outputFile(path.resolve(options.output), report);
+    } else {
+      process.stdout.write(report);
+    }
+  }
+
+  if (quiet) {
+    return result.isValid ? 0 : 1;
+  }
+
+  if (outcome) {
+    const files = outcome.files.map((file) => path.relative(absolutePath, file.path)).join(', ');
+    spinner.info(outcome.fixed > 0 ? `🔧 Fixed ${outcome.fixed} issue(s) in ${files}` : '🔧 No fixable issues found');
+    spinner.start('Validating theme...');
+  }
+
+  const exitCode = printResult(result, basePath, options.verbose || false, spinner, !isPackage);
+  if (options.output) {
+    console.log(chalk.gray(`📄 ${format.toUpperCase()} report written to ${options.output}`));
+  }
+  return exitCode;
 }
 
 /**
- * Validate theme package
+ * Print the validation result for humans
+ * @returns Exit code
  */
-async function validateTheme(themePath: string, verbose: boolean, spinner: Ora): Promise<number> {
-  const validator = new ThemeValidator(themePath);
-  const result = await validator.validate();
-
+function printResult(
+  result: ValidationResult,
+  themePath: string,
+  verbose: boolean,
+  spinner: Ora,
+  canFix: boolean
+): number {
   if (result.isValid) {
     spinner.succeed(chalk.green('✅ Theme validation passed!'));
   } else {
@@ -69,6 +171,13 @@ async function validateTheme(themePath: string, verbose: boolean, spinner: Ora):
     console.log(chalk.gray('  ID:'), result.themeInfo.name);
     console.log(chalk.gray('  Version:'), result.themeInfo.version);
     console.log(chalk.gray('  Author:'), result.themeInfo.author);
+    const images: ThemeImages | undefined = result.themeInfo.images;
+    if (images?.preview) {
+      console.log(chalk.gray('  Preview:'), formatImage(images.preview));
+    }
+    if (images && images.screenshots.length > 0) {
+      console.log(chalk.gray('  Screenshots:'), images.screenshots.map(formatImage).join(', '));
+    }
     console.log();
   }
 
@@ -76,9 +185,12 @@ async function validateTheme(themePath: string, verbose: boolean, spinner: Ora):
   if (result.errors.length > 0) {
     console.log(chalk.red.bold(`❌ ERRORS (${result.errors.length}):`));
     for (const error of result.errors) {
-      console.log(chalk.red('  •'), error.message);
+      console.log(chalk.red('  •'), formatLocation(error, themePath) + error.message);
+      if (error.suggestion) {
+        console.log(chalk.gray(`    💡 ${error.suggestion}`));
+      }
       if (verbose && error.path) {
-        console.log(chalk.gray(`    Path: ${error.path}`));
+        console.log(chalk.gray(`    Path: ${error.path}${error.pointer ? ` (${error.pointer})` : ''}`));
       }
     }
     console.log();
@@ -88,17 +200,23 @@ async function validateTheme(themePath: string, verbose: boolean, spinner: Ora):
   if (result.warnings.length > 0) {
     console.log(chalk.yellow.bold(`⚠️  WARNINGS (${result.warnings.length}):`));
     for (const warning of result.warnings) {
-      console.log(chalk.yellow('  •'), warning.message);
+      console.log(chalk.yellow('  •'), formatLocation(warning, themePath) + warning.message);
       if (warning.suggestion) {
         console.log(chalk.gray(`    💡 ${warning.suggestion}`));
       }
       if (verbose && warning.path) {
-        console.log(chalk.gray(`    Path: ${warning.path}`));
+        console.log(chalk.gray(`    Path: ${warning.path}${warning.pointer ? ` (${warning.pointer})` : ''}`));
       }
     }
     console.log();
   }
 
+  const fixable = canFix ? countFixable(result) : 0;
+  if (fixable > 0) {
+    console.log(chalk.gray(`🔧 ${fixable} issue(s) can be fixed automatically with --fix (preview with --fix-dry-run)`));
+    console.log();
+  }
+
   // Summary
   if (result.errors.length === 0 && result.warnings.length === 0) {
     console.log(chalk.green('✨ No errors or warnings found!'));
@@ -115,3 +233,21 @@ async function validateTheme(themePath: string, verbose: boolean, spinner: Ora):
   }
 }
 
+/**
+ * Location prefix such as "tokens.json:42:7 ", relative to the theme directory
+ */
+export function formatLocation(item: ValidationError | ValidationWarning, themePath: string): string {
+  if (!item.path || !path.isAbsolute(item.path)) {
+    return '';
+  }
+  const file = path.relative(themePath, item.path).split(path.sep).join('/');
+  const position = item.line ? `:${item.line}${item.column ? `:${item.column}` : ''}` : '';
+  return chalk.gray(`${file}${position}`) + ' ';
+}
+
+/**
+ * Image dimensions such as "600x800 PNG"
+ */
+function formatImage(image: ImageInfo): string {
+  return `${image.width}x${image.height} ${image.format.toUpperCase()}`;
+}
@@ -6,8 +6,20 @@
 export { initCommand } from './commands/init.js';
 export { validateCommand } from './commands/validate.js';
 export { packageCommand } from './commands/package.js';
+export { buildCssCommand } from './commands/build-css.js';
+export { previewCommand } from './commands/preview.js';
+export { compatCommand } from './commands/compat.js';
+export { releaseCommand } from './commands/release.js';
+export { loginCommand, logoutCommand } from './commands/login.js';
+export { formatReport } from './utils/report-formats.js';
 
 // Re-export types
 export type { InitOptions } from './commands/init.js';
 export type { ValidateOptions } from './commands/validate.js';
 export type { PackageOptions } from './commands/package.js';
+export type { BuildCssOptions } from './commands/build-css.js';
+export type { PreviewOptions } from './commands/preview.js';
+export type { CompatOptions } from './commands/compat.js';
+export type { ReleaseOptions } from './commands/release.js';
+export type { LoginOptions, LogoutOptions } from './commands/login.js';
+export type { ReportFormat } from './utils/report-formats.js';
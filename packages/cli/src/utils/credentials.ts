@@ -0,0 +1,114 @@
+/**
+ * Shop API tokens stored by spwig login
+ */
+
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+
+export interface StoredToken {
+  token: string;
+  /** ISO timestamp; tokens without one don't expire */
+  expires_at?: string;
+  /** Admin user the token belongs to */
+  username?: string;
+}
+
+interface CredentialsFile {
+  /** Tokens by shop URL */
+  shops: Record<string, StoredToken>;
+}
+
+/**
+ * Credentials file: $SPWIG_CONFIG_DIR, or spwig/ in the user config directory
+ * (%APPDATA% on Windows, $XDG_CONFIG_HOME or ~/.config elsewhere)
+ */
+export function getCredentialsPath(): string {
+  let configDir = process.env.SPWIG_CONFIG_DIR;
+  if (!configDir) {
+    const base =
+      process.platform === 'win32'
+        ? process.env.APPDATA || path.join(os.homedir(), 'AppData', 'Roaming')
+        : process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config');
+    configDir = path.join(base, 'spwig');
+  }
+  return path.join(configDir, 'credentials.json');
+}
+
+/**
+ * Key tokens by origin and path, so "http://localhost:8000/" and "http://localhost:8000" match
+ */
+export function normalizeShopUrl(shopUrl: string): string {
+  try {
+    const url = new URL(shopUrl);
+    return `${url.origin}${url.pathname.replace(/\/+$/, '')}`;
+  } catch {
+    return shopUrl.replace(/\/+$/, '');
+  }
+}
+
+/**
+ * Whether an expiry time has passed, or will within marginMs
+ */
+export function isExpired(expiresAt: string | undefined, marginMs = 0): boolean {
+  if (!expiresAt) {
+    return false;
+  }
+  const time = Date.parse(expiresAt);
+  return !Number.isNaN(time) && time - marginMs <= Date.now();
+}
+
+/**
+ * Token stored for a shop, unless it has expired
+ */
+export async function readStoredToken(shopUrl: string): Promise<StoredToken | null> {
+  const stored = (await readCredentials()).shops[normalizeShopUrl(shopUrl)];
+  return stored && !isExpired(stored.expires_at) ? stored : null;
+}
+
+export async function storeToken(shopUrl: string, token: StoredToken): Promise<void> {
+  const credentials = await readCredentials();
+  credentials.shops[normalizeShopUrl(shopUrl)] = token;
+  await writeCredentials(credentials);
+}
+
+/**
+ * @returns Whether a token was stored for the shop
+ */
+export async function removeStoredToken(shopUrl: string): Promise<boolean> {
+  const credentials = await readCredentials();
+  const key = normalizeShopUrl(shopUrl);
+  if (!(key in credentials.shops)) {
+    return false;
+  }
+  delete credentials.shops[key];
+  await writeCredentials(credentials);
+  return true;
+}
+
+/**
+ * Shop URLs with a stored token
+ */
+export async function listStoredShops(): Promise<string[]> {
+  return Object.keys((await readCredentials()).shops);
+}
+
+async function readCredentials(): Promise<CredentialsFile> {
+  try {
+    const data = await fs.readJSON(getCredentialsPath());
+    return { shops: data && typeof data.shops === 'object' ? data.shops : {} };
+  } catch {
+    return { shops: {} };
+  }
+}
+
+/**
+ * Write the credentials readable by the current user only
+ */
+async function writeCredentials(credentials: CredentialsFile): Promise<void> {
+  const credentialsPath = getCredentialsPath();
+  await fs.ensureDir(path.dirname(credentialsPath), { mode: 0o700 });
+  await fs.writeFile(credentialsPath, JSON.stringify(credentials, null, 2) + '\n', { mode: 0o600 });
+  // The mode only applies to new files
+  await fs.chmod(credentialsPath, 0o600);
+}
@@ -0,0 +1,244 @@
+/**
+ * Auto-fix support for spwig validate
+ * Applies the edits validator rules attach to fixable issues, and renders them as unified diffs
+ */
+
+import path from 'path';
+import { fileURLToPath } from 'url';
+import fs from 'fs-extra';
+import { ThemeValidator, applyTextEdits } from '@spwig/theme-validator';
+import type { DesignTokens, Fix, TextEdit, ValidationResult } from '@spwig/theme-validator';
+import { readTemplate } from './file-system.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// Fixes can expose new fixable issues (e.g., a fixed slug lets tokens.json be checked),
+// so validation is repeated until nothing changes, up to this many times
+const MAX_FIX_PASSES = 10;
+
+// Lines of unchanged context around each diff hunk
+const DIFF_CONTEXT = 3;
+
+export interface FixedFile {
+  /** Absolute file path */
+  path: string;
+  original: string;
+  fixed: string;
+}
+
+export interface FixOutcome {
+  /** Files whose contents changed */
+  files: FixedFile[];
+  /** Number of fixes applied */
+  fixed: number;
+  /** Validation result for the fixed contents */
+  result: ValidationResult;
+}
+
+/**
+ * Tokens from the `spwig init` starter theme, used to fill in missing recommended tokens
+ */
+export async function loadStarterTokens(): Promise<DesignTokens | undefined> {
+  try {
+    const content = await readTemplate(path.join(__dirname, '../templates/theme/tokens.json.template'), {
+      primaryColor: '#2563eb',
+      primaryHoverColor: '#1d4ed8',
+    });
+    return JSON.parse(content);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Count issues in a result that come with a fix
+ */
+export function countFixable(result: ValidationResult): number {
+  return [...result.errors, ...result.warnings].filter((item) => item.fix).length;
+}
+
+/**
+ * Validate a theme and apply every available fix in memory, without touching the files
+ */
+export async function fixTheme(themePath: string, starterTokens?: DesignTokens): Promise<FixOutcome> {
+  const overlay = new Map<string, string>();
+  const originals = new Map<string, string>();
+  const validate = () => new ThemeValidator(themePath, { overlay, starterTokens }).validate();
+  let fixed = 0;
+
+  for (let pass = 0; pass < MAX_FIX_PASSES; pass++) {
+    const result = await validate();
+    const applied = await applyFixes(collectFixes(result), overlay, originals);
+    if (applied === 0) {
+      return { files: changedFiles(overlay, originals), fixed, result };
+    }
+    fixed += applied;
+  }
+
+  return { files: changedFiles(overlay, originals), fixed, result: await validate() };
+}
+
+/**
+ * Write fixed contents back to disk
+ */
+export async function writeFixedFiles(files: FixedFile[]): Promise<void> {
+  for (const file of files) {
+    await fs.writeFile(file.path, file.fixed, 'utf-8');
+  }
+}
+
+function collectFixes(result: ValidationResult): Fix[] {
+  return [...result.errors, ...result.warnings].flatMap((item) => (item.fix ? [item.fix] : []));
+}
+
+/**
+ * Apply fixes to the overlay contents
+ * @returns Number of fixes applied; a fix is only counted when none of its edits was skipped
+ */
+async function applyFixes(fixes: Fix[], overlay: Map<string, string>, originals: Map<string, string>): Promise<number> {
+  const editsByFile = new Map<string, TextEdit[]>();
+  for (const edit of fixes.flatMap((fix) => fix.edits)) {
+    editsByFile.set(edit.path, [...(editsByFile.get(edit.path) || []), edit]);
+  }
+
+  const skipped = new Set<TextEdit>();
+  for (const [filePath, edits] of editsByFile) {
+    let text = overlay.get(filePath);
+    if (text === undefined) {
+      text = await fs.readFile(filePath, 'utf-8');
+      originals.set(filePath, text);
+    }
+
+    const applied = applyTextEdits(text, edits);
+    applied.skipped.forEach((edit) => skipped.add(edit));
+    overlay.set(filePath, applied.text);
+  }
+
+  return fixes.filter((fix) => !fix.edits.some((edit) => skipped.has(edit))).length;
+}
+
+function changedFiles(overlay: Map<string, string>, originals: Map<string, string>): FixedFile[] {
+  return [...overlay]
+    .map(([filePath, fixed]) => ({ path: filePath, original: originals.get(filePath)!, fixed }))
+    .filter((file) => file.fixed !== file.original);
+}
+
+/**
+ * Unified diff between two versions of a file
+ * @param file - Path shown in the ---/+++ headers
+ */
+export function createUnifiedDiff(file: string, original: string, fixed: string): string {
+  const oldLines = splitLines(original);
+  const newLines = splitLines(fixed);
+  const ops = diffLines(oldLines, newLines);
+
+  // Group changes that are close enough to share context into hunks
+  const hunks: string[] = [];
+  let index = 0;
+  while (index < ops.length) {
+    if (ops[index].kind === ' ') {
+      index++;
+      continue;
+    }
+
+    const start = Math.max(0, index - DIFF_CONTEXT);
+    let end = index;
+    let lastChange = index;
+    while (end < ops.length && end - lastChange <= DIFF_CONTEXT * 2 + 1) {
+      if (ops[end].kind !== ' ') {
+        lastChange = end;
+      }
+      end++;
+    }
+    end = Math.min(ops.length, lastChange + DIFF_CONTEXT + 1);
+
+    const hunk = ops.slice(start, end);
+    const oldStart = ops[start].oldLine;
+    const newStart = ops[start].newLine;
+    const oldCount = hunk.filter((op) => op.kind !== '+').length;
+    const newCount = hunk.filter((op) => op.kind !== '-').length;
+    hunks.push(
+      `@@ -${oldCount ? oldStart : oldStart - 1},${oldCount} +${newCount ? newStart : newStart - 1},${newCount} @@\n` +
+        hunk.map((op) => `${op.kind}${op.text}\n`).join('')
+    );
+    index = end;
+  }
+
+  if (hunks.length === 0) {
+    return '';
+  }
+  return `--- a/${file}\n+++ b/${file}\n${hunks.join('')}`;
+}
+
+interface DiffOp {
+  kind: ' ' | '-' | '+';
+  text: string;
+  /** 1-based line in the original (for '+', the line it is inserted before) */
+  oldLine: number;
+  /** 1-based line in the fixed version (for '-', the line it was removed before) */
+  newLine: number;
+}
+
+function splitLines(text: string): string[] {
+  const lines = text.split('\n');
+  if (lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+  return lines;
+}
+
+/**
+ * Line diff via longest common subsequence, after trimming the shared prefix and suffix
+ */
+function diffLines(oldLines: string[], newLines: string[]): DiffOp[] {
+  let prefix = 0;
+  while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const a = oldLines.slice(prefix, oldLines.length - suffix);
+  const b = newLines.slice(prefix, newLines.length - suffix);
+
+  // lengths[i][j] = LCS length of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const ops: DiffOp[] = [];
+  let oldLine = 1;
+  let newLine = 1;
+  const push = (kind: DiffOp['kind'], text: string) => {
+    ops.push({ kind, text, oldLine, newLine });
+    if (kind !== '+') oldLine++;
+    if (kind !== '-') newLine++;
+  };
+
+  oldLines.slice(0, prefix).forEach((line) => push(' ', line));
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      push(' ', a[i++]);
+      j++;
+    } else if (i < a.length && (j === b.length || lengths[i + 1][j] >= lengths[i][j + 1])) {
+      push('-', a[i++]);
+    } else {
+      push('+', b[j++]);
+    }
+  }
+  oldLines.slice(oldLines.length - suffix).forEach((line) => push(' ', line));
+
+  return ops;
+}
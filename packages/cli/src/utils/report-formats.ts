@@ -0,0 +1,189 @@
+/**
+ * Machine-readable validation reports (JSON, SARIF, JUnit)
+ */
+
+import path from 'path';
+import type { ValidationResult, ValidationError, ValidationWarning } from '@spwig/theme-validator';
+
+export type ReportFormat = 'json' | 'sarif' | 'junit';
+
+export const REPORT_FORMATS: ReportFormat[] = ['json', 'sarif', 'junit'];
+
+interface Diagnostic {
+  severity: 'error' | 'warning';
+  type: string;
+  message: string;
+  /** File path relative to the working directory (POSIX separators) */
+  file: string | null;
+  line?: number;
+  column?: number;
+  /** JSON pointer into the file, for JSON diagnostics */
+  pointer?: string;
+  suggestion?: string;
+  fixable: boolean;
+}
+
+/**
+ * Render a validation result in a machine-readable format
+ * @param themePath - Absolute path of the validated theme
+ */
+export function formatReport(format: ReportFormat, result: ValidationResult, themePath: string): string {
+  const diagnostics = collectDiagnostics(result, themePath);
+
+  switch (format) {
+    case 'json':
+      return formatJson(result, diagnostics, themePath);
+    case 'sarif':
+      return formatSarif(diagnostics, themePath);
+    case 'junit':
+      return formatJunit(result, diagnostics, themePath);
+  }
+}
+
+/**
+ * Flatten errors and warnings into one list with relative file paths
+ */
+function collectDiagnostics(result: ValidationResult, themePath: string): Diagnostic[] {
+  const toDiagnostic = (
+    severity: Diagnostic['severity'],
+    item: ValidationError | ValidationWarning
+  ): Diagnostic => ({
+    severity,
+    type: item.type,
+    message: item.message,
+    file: relativeFile(item.path, themePath),
+    line: item.line,
+    column: item.column,
+    pointer: item.pointer,
+    suggestion: item.suggestion,
+    fixable: item.fixable,
+  });
+
+  return [
+    ...result.errors.map((error) => toDiagnostic('error', error)),
+    ...result.warnings.map((warning) => toDiagnostic('warning', warning)),
+  ];
+}
+
+/**
+ * Resolve a diagnostic path to a file relative to the working directory.
+ * Schema errors carry a JSON pointer instead of a file; those belong to manifest.json.
+ */
+function relativeFile(itemPath: string | undefined, themePath: string): string | null {
+  if (!itemPath) {
+    return null;
+  }
+  const filePath = path.isAbsolute(itemPath) ? itemPath : path.join(themePath, 'manifest.json');
+  return path.relative(process.cwd(), filePath).split(path.sep).join('/');
+}
+
+function formatJson(result: ValidationResult, diagnostics: Diagnostic[], themePath: string): string {
+  const report = {
+    path: themePath,
+    valid: result.isValid,
+    theme: result.themeInfo
+      ? { name: result.themeInfo.name, version: result.themeInfo.version }
+      : null,
+    summary: {
+      errors: result.errors.length,
+      warnings: result.warnings.length,
+      fixable: diagnostics.filter((d) => d.fixable).length,
+    },
+    diagnostics,
+  };
+  return JSON.stringify(report, null, 2) + '\n';
+}
+
+/**
+ * SARIF 2.1.0 for GitHub code scanning.
+ * Results without a file are attached to manifest.json, since code scanning needs a location.
+ */
+function formatSarif(diagnostics: Diagnostic[], themePath: string): string {
+  const manifestFile = relativeFile(path.join(themePath, 'manifest.json'), themePath)!;
+  const ruleIds = [...new Set(diagnostics.map((d) => d.type))];
+
+  const sarif = {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: 'spwig-theme-validator',
+            informationUri: 'https://github.com/spwig/theme-sdk',
+            rules: ruleIds.map((id) => ({ id, shortDescription: { text: id.replace(/_/g, ' ') } })),
+          },
+        },
+        results: diagnostics.map((d) => ({
+          ruleId: d.type,
+          ruleIndex: ruleIds.indexOf(d.type),
+          level: d.severity,
+          message: { text: d.suggestion ? `${d.message}\n${d.suggestion}` : d.message },
+          locations: [
+            {
+              physicalLocation: {
+                artifactLocation: { uri: d.file || manifestFile },
+                ...(d.line
+                  ? { region: { startLine: d.line, ...(d.column ? { startColumn: d.column } : {}) } }
+                  : {}),
+              },
+            },
+          ],
+          properties: { fixable: d.fixable, ...(d.pointer !== undefined ? { pointer: d.pointer } : {}) },
+        })),
+      },
+    ],
+  };
+  return JSON.stringify(sarif, null, 2) + '\n';
+}
+
+/**
+ * JUnit XML for GitLab test reports: errors are failures, warnings are passing cases with output
+ */
+function formatJunit(result: ValidationResult, diagnostics: Diagnostic[], themePath: string): string {
+  const suiteName = result.themeInfo?.name || path.basename(themePath);
+  const cases = diagnostics.map((d) => {
+    const location = d.file ? `${d.file}${d.line ? `:${d.line}${d.column ? `:${d.column}` : ''}` : ''}` : '';
+    const name = escapeXml(`${d.type}: ${d.message}`);
+    const classname = escapeXml(d.file || suiteName);
+    const details = escapeXml([location, d.message, d.suggestion].filter(Boolean).join('\n'));
+
+    if (d.severity === 'error') {
+      return (
+        `    <testcase name="${name}" classname="${classname}">\n` +
+        `      <failure message="${escapeXml(d.message)}" type="${escapeXml(d.type)}">${details}</failure>\n` +
+        `    </testcase>`
+      );
+    }
+    return (
+      `    <testcase name="${name}" classname="${classname}">\n` +
+      `      <system-out>warning: ${details}</system-out>\n` +
+      `    </testcase>`
+    );
+  });
+
+  // A clean run still reports one passing case so the suite isn't empty
+  if (cases.length === 0) {
+    cases.push(`    <testcase name="theme validation" classname="${escapeXml(suiteName)}"/>`);
+  }
+
+  const failures = result.errors.length;
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="spwig validate" tests="${cases.length}" failures="${failures}">`,
+    `  <testsuite name="${escapeXml(suiteName)}" tests="${cases.length}" failures="${failures}" errors="0" skipped="0">`,
+    ...cases,
+    '  </testsuite>',
+    '</testsuites>',
+    '',
+  ].join('\n');
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
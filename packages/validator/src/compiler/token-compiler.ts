@@ -0,0 +1,232 @@
+/**
+ * Token Compiler
+ * Converts tokens.json into the --theme-* CSS custom properties the platform emits
+ */
+
+import { DesignTokens } from '../types/manifest.js';
+import { CompiledVariable, CompileOptions } from '../types/compiler.js';
+import { VALID_BREAKPOINTS } from '../validators/design-tokens-validator.js';
+import { TokenResolver } from './token-resolver.js';
+
+// Default breakpoint widths (overridden by the theme's `breakpoints` category)
+const DEFAULT_BREAKPOINT_WIDTHS: Record<string, string> = {
+  sm: '640px',
+  md: '768px',
+  lg: '1024px',
+  xl: '1280px',
+  '2xl': '1536px',
+};
+
+// Device-named breakpoints map onto the width scale; `mobile` is the base value
+const BREAKPOINT_ALIASES: Record<string, string | null> = {
+  mobile: null,
+  tablet: 'md',
+  desktop: 'lg',
+};
+
+// Category → CSS variable prefix where it differs from the category name
+// (see "Naming Convention" in docs/DESIGN_TOKENS.md)
+const CATEGORY_PREFIXES: Record<string, string> = {
+  colors: 'color',
+  dark: 'dark',
+  typography: '',
+  spacing: 'space',
+  shadows: 'shadow',
+  transitions: 'transition',
+  breakpoints: 'breakpoint',
+  'z-index': 'z',
+  elements: 'element',
+  widgets: 'widget',
+};
+
+export class TokenCompiler {
+  /**
+   * Get the CSS variable name for a token
+   * @param category - Top-level token category (e.g., 'colors', 'button-primary')
+   * @param keyPath - Key path inside the category (e.g., ['zones', 'top-bar', 'background'])
+   */
+  static getVariableName(category: string, keyPath: string[]): string {
+    let prefix: string;
+
+    if (category.startsWith('button-') || category.startsWith('card-')) {
+      prefix = `element-${category}`;
+    } else if (category === 'borders') {
+      // radius-* keys drop the category, width-* keys keep it
+      prefix = keyPath[0]?.startsWith('radius-') ? '' : 'border';
+    } else if (Object.prototype.hasOwnProperty.call(CATEGORY_PREFIXES, category)) {
+      prefix = CATEGORY_PREFIXES[category];
+    } else {
+      prefix = category;
+    }
+
+    return ['--theme', prefix, ...keyPath].filter(Boolean).join('-');
+  }
+
+  /**
+   * Check whether a token value is a responsive breakpoint object
+   */
+  static isResponsiveValue(value: unknown): value is Record<string, string> {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      return false;
+    }
+    const keys = Object.keys(value);
+    return keys.length > 0 && keys.every((key) => VALID_BREAKPOINTS.includes(key));
+  }
+
+  /**
+   * Flatten design tokens into CSS variables, in tokens.json order.
+   * Token references are resolved to literal values first.
+   */
+  collectVariables(tokens: DesignTokens): CompiledVariable[] {
+    const variables: CompiledVariable[] = [];
+    const resolved = new TokenResolver(tokens).resolveAll();
+
+    const walk = (category: string, keyPath: string[], value: unknown): void => {
+      const tokenPath = [category, ...keyPath].join('.');
+
+      // A category's own keys are never breakpoints (e.g., the `breakpoints` category itself)
+      if (keyPath.length > 0 && TokenCompiler.isResponsiveValue(value)) {
+        const name = TokenCompiler.getVariableName(category, keyPath);
+        for (const [breakpoint, breakpointValue] of Object.entries(value)) {
+          variables.push({
+            name,
+            value: String(breakpointValue),
+            tokenPath,
+            breakpoint: breakpoint === 'mobile' ? undefined : breakpoint,
+          });
+        }
+        return;
+      }
+
+      if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+        for (const [key, child] of Object.entries(value)) {
+          walk(category, [...keyPath, key], child);
+        }
+        return;
+      }
+
+      if (typeof value === 'string' || typeof value === 'number') {
+        variables.push({
+          name: TokenCompiler.getVariableName(category, keyPath),
+          value: String(value),
+          tokenPath,
+        });
+      }
+    };
+
+    for (const [category, categoryTokens] of Object.entries(resolved)) {
+      // Skip metadata keys such as "$schema" and non-object categories
+      if (category.startsWith('$')) continue;
+      if (typeof categoryTokens !== 'object' || categoryTokens === null) continue;
+
+      walk(category, [], categoryTokens);
+    }
+
+    return variables;
+  }
+
+  /**
+   * Compile design tokens to a stylesheet
+   */
+  compile(rawTokens: DesignTokens, options: CompileOptions = {}): string {
+    const tokens = new TokenResolver(rawTokens).resolveAll();
+    const variables = this.collectVariables(tokens);
+    const blocks: string[] = [];
+
+    if (options.header) {
+      blocks.push(`/* ${options.header} */`);
+    }
+
+    // Base values
+    const baseVariables = variables.filter((v) => !v.breakpoint);
+    blocks.push(this.renderRule(':root', baseVariables.map((v) => [v.name, v.value])));
+
+    // Responsive values, grouped by media query and ordered by width (mobile-first)
+    const mediaGroups = new Map<string, CompiledVariable[]>();
+    for (const variable of variables) {
+      if (!variable.breakpoint) continue;
+      const width = this.resolveBreakpointWidth(variable.breakpoint, tokens);
+      if (!width) continue;
+      const group = mediaGroups.get(width) || [];
+      group.push(variable);
+      mediaGroups.set(width, group);
+    }
+
+    const widths = [...mediaGroups.keys()].sort((a, b) => parseFloat(a) - parseFloat(b));
+    for (const width of widths) {
+      const declarations = mediaGroups.get(width)!.map((v): [string, string] => [v.name, v.value]);
+      blocks.push(this.renderMedia(`(min-width: ${width})`, this.renderRule(':root', declarations)));
+    }
+
+    // Dark mode overrides
+    if (options.darkMode !== false && tokens.dark) {
+      blocks.push(...this.compileDarkMode(tokens));
+    }
+
+    return blocks.join('\n\n') + '\n';
+  }
+
+  /**
+   * Build the dark mode blocks: OS preference, manual toggle and forced light mode.
+   * Each dark key overrides its colors/shadows counterpart; keys without a
+   * counterpart only produce their --theme-dark-* variable.
+   */
+  private compileDarkMode(tokens: DesignTokens): string[] {
+    const darkDeclarations: Array<[string, string]> = [];
+    const lightDeclarations: Array<[string, string]> = [];
+
+    for (const [key, value] of Object.entries(tokens.dark || {})) {
+      if (typeof value !== 'string') continue;
+
+      const [category, lightKey] = key.startsWith('shadow-')
+        ? ['shadows', key.slice('shadow-'.length)]
+        : ['colors', key];
+      const lightValue = tokens[category]?.[lightKey];
+      if (typeof lightValue !== 'string') continue;
+
+      const target = TokenCompiler.getVariableName(category, [lightKey]);
+      darkDeclarations.push([target, `var(${TokenCompiler.getVariableName('dark', [key])})`]);
+      lightDeclarations.push([target, lightValue]);
+    }
+
+    if (darkDeclarations.length === 0) {
+      return [];
+    }
+
+    return [
+      this.renderMedia('(prefers-color-scheme: dark)', this.renderRule(':root', darkDeclarations)),
+      this.renderRule('[data-theme="dark"]', darkDeclarations),
+      this.renderRule('[data-theme="light"]', lightDeclarations),
+    ];
+  }
+
+  /**
+   * Resolve the min-width for a breakpoint name
+   */
+  private resolveBreakpointWidth(breakpoint: string, tokens: DesignTokens): string | null {
+    const key = breakpoint in BREAKPOINT_ALIASES ? BREAKPOINT_ALIASES[breakpoint] : breakpoint;
+    if (!key) return null;
+
+    const themeWidth = tokens.breakpoints?.[key];
+    return typeof themeWidth === 'string' ? themeWidth : DEFAULT_BREAKPOINT_WIDTHS[key] || null;
+  }
+
+  /**
+   * Render a rule with one declaration per line
+   */
+  private renderRule(selector: string, declarations: Array<[string, string]>): string {
+    const body = declarations.map(([name, value]) => `  ${name}: ${value};\n`).join('');
+    return `${selector} {\n${body}}`;
+  }
+
+  /**
+   * Wrap a rule in an @media block
+   */
+  private renderMedia(query: string, rule: string): string {
+    const indented = rule
+      .split('\n')
+      .map((line) => `  ${line}`)
+      .join('\n');
+    return `@media ${query} {\n${indented}\n}`;
+  }
+}
@@ -0,0 +1,226 @@
+/**
+ * Token Resolver
+ * Resolves {category.key} references between design tokens
+ */
+
+import { DesignTokens } from '../types/manifest.js';
+
+export type TokenValueType = 'color' | 'dimension' | 'shadow' | 'number' | 'duration' | 'font';
+
+export interface ReferenceIssue {
+  /** Issue kind */
+  kind: 'dangling' | 'cycle' | 'invalid_target' | 'type_mismatch';
+  /** Dot path of the token containing the reference */
+  tokenPath: string;
+  /** Referenced token path */
+  reference: string;
+  /** Human-readable description */
+  message: string;
+}
+
+// Categories whose tokens all share one value type
+const CATEGORY_TYPES: Record<string, TokenValueType> = {
+  colors: 'color',
+  dark: 'color',
+  spacing: 'dimension',
+  breakpoints: 'dimension',
+  shadows: 'shadow',
+  'z-index': 'number',
+};
+
+// Key suffixes that identify the value type in mixed categories (checked in order)
+const KEY_TYPE_PATTERNS: Array<[RegExp, TokenValueType]> = [
+  [/(^|-)shadow(-hover)?$/, 'shadow'],
+  [/(^|-)(color|colour|bg|background|text|fill|stroke)(-hover|-active)?$/, 'color'],
+  [/(^|-)font-family(-|$)|^font-(sans|serif|mono)$/, 'font'],
+  [/(^|-)(duration|delay)(-|$)/, 'duration'],
+  [/(^|-)(font-weight|line-height|opacity|z-index|scale)(-|$)/, 'number'],
+  [/(^|-)(padding|margin|gap|size|radius|width|height|spacing|offset)(-|$)/, 'dimension'],
+];
+
+export class TokenResolver {
+  /** Matches {category.key} and {category.group.key} references */
+  static REFERENCE_PATTERN = /\{([A-Za-z0-9_-]+(?:\.[A-Za-z0-9_-]+)+)\}/g;
+
+  private tokens: DesignTokens;
+  private resolved = new Map<string, string>();
+  private reported = new Set<string>();
+  private issues: ReferenceIssue[] = [];
+
+  constructor(tokens: DesignTokens) {
+    this.tokens = tokens;
+  }
+
+  /**
+   * Check whether a value contains a token reference
+   */
+  static hasReference(value: unknown): boolean {
+    return typeof value === 'string' && new RegExp(TokenResolver.REFERENCE_PATTERN.source).test(value);
+  }
+
+  /**
+   * Infer the value type of a token from its category and key
+   * @returns null when the type can't be determined
+   */
+  static inferType(tokenPath: string): TokenValueType | null {
+    const [category, ...keyPath] = tokenPath.split('.');
+    const key = keyPath[keyPath.length - 1] || '';
+
+    // dark mixes color overrides with shadow-* overrides
+    if (category === 'dark' && key.startsWith('shadow-')) {
+      return 'shadow';
+    }
+    if (Object.prototype.hasOwnProperty.call(CATEGORY_TYPES, category)) {
+      return CATEGORY_TYPES[category];
+    }
+    if (category === 'transitions') {
+      return key.startsWith('duration') ? 'duration' : null;
+    }
+
+    for (const [pattern, type] of KEY_TYPE_PATTERNS) {
+      if (pattern.test(key)) {
+        return type;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Resolve every reference and return a copy of the tokens with literal values.
+   * Unresolvable references are left in place and reported via getIssues().
+   */
+  resolveAll(): DesignTokens {
+    const walk = (value: unknown, tokenPath: string): unknown => {
+      if (typeof value === 'string') {
+        return this.resolveString(value, tokenPath, []);
+      }
+      if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+        const result: Record<string, unknown> = {};
+        for (const [key, child] of Object.entries(value)) {
+          result[key] = walk(child, tokenPath ? `${tokenPath}.${key}` : key);
+        }
+        return result;
+      }
+      return value;
+    };
+
+    return walk(this.tokens, '') as DesignTokens;
+  }
+
+  /**
+   * Get problems found while resolving
+   */
+  getIssues(): ReferenceIssue[] {
+    return this.issues;
+  }
+
+  /**
+   * Resolve references inside a string value
+   * @param stack - Token paths currently being resolved (for cycle detection)
+   */
+  private resolveString(value: string, tokenPath: string, stack: string[]): string {
+    const pattern = new RegExp(TokenResolver.REFERENCE_PATTERN.source, 'g');
+    const isWholeValue = new RegExp(`^${TokenResolver.REFERENCE_PATTERN.source}$`).test(value.trim());
+
+    return value.replace(pattern, (match, reference: string) => {
+      const target = this.resolveReference(reference, tokenPath, [...stack, tokenPath]);
+      if (target === null) {
+        return match;
+      }
+
+      // Only a whole-value alias has to agree on type; embedded references build compound values
+      if (isWholeValue && stack.length === 0) {
+        const sourceType = TokenResolver.inferType(tokenPath);
+        const targetType = TokenResolver.inferType(reference);
+        if (sourceType && targetType && sourceType !== targetType) {
+          this.issues.push({
+            kind: 'type_mismatch',
+            tokenPath,
+            reference,
+            message: `"${tokenPath}" expects a ${sourceType} but references ${targetType} token "${reference}"`,
+          });
+        }
+      }
+
+      return target;
+    });
+  }
+
+  /**
+   * Resolve a single reference to its final value
+   * @param stack - Token paths being resolved, ending with the referencing token
+   */
+  private resolveReference(reference: string, fromPath: string, stack: string[]): string | null {
+    if (stack.includes(reference)) {
+      const cycle = [...stack.slice(stack.indexOf(reference)), reference];
+      // The same cycle is found again from each of its members
+      this.report(`cycle|${[...new Set(cycle)].sort().join('|')}`, {
+        kind: 'cycle',
+        tokenPath: fromPath,
+        reference,
+        message: `Reference cycle: ${cycle.join(' → ')}`,
+      });
+      return null;
+    }
+
+    if (this.resolved.has(reference)) {
+      return this.resolved.get(reference)!;
+    }
+
+    const target = this.lookup(reference);
+
+    if (target === undefined) {
+      this.report(`dangling|${fromPath}|${reference}`, {
+        kind: 'dangling',
+        tokenPath: fromPath,
+        reference,
+        message: `"${fromPath}" references undefined token "{${reference}}"`,
+      });
+      return null;
+    }
+
+    if (typeof target !== 'string' && typeof target !== 'number') {
+      this.report(`invalid_target|${fromPath}|${reference}`, {
+        kind: 'invalid_target',
+        tokenPath: fromPath,
+        reference,
+        message: `"${fromPath}" references "{${reference}}", which is a group or responsive value rather than a single token`,
+      });
+      return null;
+    }
+
+    const result = this.resolveString(String(target), reference, stack);
+
+    // A value that still contains references failed to resolve further down the chain
+    if (TokenResolver.hasReference(result)) {
+      return null;
+    }
+
+    this.resolved.set(reference, result);
+    return result;
+  }
+
+  /**
+   * Look up a token by dot path
+   */
+  private lookup(reference: string): unknown {
+    let current: unknown = this.tokens;
+    for (const key of reference.split('.')) {
+      if (typeof current !== 'object' || current === null || !Object.prototype.hasOwnProperty.call(current, key)) {
+        return undefined;
+      }
+      current = (current as Record<string, unknown>)[key];
+    }
+    return current;
+  }
+
+  /**
+   * Record an issue once; chains are walked again from every token they pass through
+   */
+  private report(signature: string, issue: ReferenceIssue): void {
+    if (!this.reported.has(signature)) {
+      this.reported.add(signature);
+      this.issues.push(issue);
+    }
+  }
+}
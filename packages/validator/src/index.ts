@@ -7,15 +7,106 @@
 export { ThemeValidator } from './validators/theme-validator.js';
 export { ManifestValidator } from './validators/manifest-validator.js';
 export { DesignTokensValidator } from './validators/design-tokens-validator.js';
+export { OverridesValidator, PLATFORM_CSS_PATH } from './validators/overrides-validator.js';
+export { RtlValidator } from './validators/rtl-validator.js';
+export { ContrastValidator, parseAccessibilityLevel } from './validators/contrast-validator.js';
+export { PackageValidator } from './validators/package-validator.js';
+
+// Export compiler
+export { TokenCompiler } from './compiler/token-compiler.js';
+export { TokenResolver } from './compiler/token-resolver.js';
+
+// Export utilities
+export { checkColor, parseColor, contrastRatio } from './utils/color.js';
+export {
+  parseJsonWithPointers,
+  jsonPointer,
+  locatePointer,
+  JsonParseError,
+} from './utils/json-source-map.js';
+export { applyTextEdits } from './utils/text-edits.js';
+export { applyRuleConfig, CONFIG_FILE_NAME, DEFAULT_THRESHOLDS } from './utils/rule-config.js';
+export { readZipEntries, ZipFormatError } from './utils/zip-reader.js';
+export { readImageInfo } from './utils/image-info.js';
+export {
+  parseSemver,
+  compareSemver,
+  compareVersions,
+  satisfies,
+  isValidRange,
+  incrementVersion,
+} from './utils/semver.js';
+export {
+  loadPlatformCapabilities,
+  findPlatformFeatures,
+  describePlatformFeature,
+  PLATFORM_COMPATIBILITY_TYPES,
+} from './utils/platform-capabilities.js';
+export { PACKAGE_EXCLUDE_PATTERNS, isExcludedFromPackage, contentChecksum } from './utils/package-format.js';
 
 // Export types
 export type {
   ValidationResult,
   ValidationError,
   ValidationWarning,
+  Fix,
+  TextEdit,
 } from './types/validation-result.js';
 
+export type { ThemeValidatorOptions } from './validators/theme-validator.js';
+export type { DesignTokensValidatorOptions } from './validators/design-tokens-validator.js';
+
+export type {
+  ValidatorConfig,
+  RuleSeverity,
+  ValidatorThresholds,
+} from './types/config.js';
+
+export type {
+  ValidationRule,
+  RuleMeta,
+  RuleContext,
+  RuleIssue,
+  PresetFile,
+} from './types/rule.js';
+
 export type {
   ThemeManifest,
   DesignTokens,
+  LayoutPreset,
+  ChangelogEntry,
+  WidgetPlacement,
 } from './types/manifest.js';
+
+export type {
+  CompiledVariable,
+  CompileOptions,
+} from './types/compiler.js';
+
+export type {
+  RgbaColor,
+  ColorCheckResult,
+} from './utils/color.js';
+
+export type {
+  JsonLocation,
+  JsonSourceMap,
+  ParsedJson,
+} from './utils/json-source-map.js';
+
+export type { SourcePosition } from './utils/source-position.js';
+export type { AppliedEdits } from './utils/text-edits.js';
+export type { ZipEntry } from './utils/zip-reader.js';
+export type { ImageFormat, ImageInfo, ImageFileInfo, ThemeImages } from './utils/image-info.js';
+export type { SemVer, ReleaseType } from './utils/semver.js';
+export type { PlatformCapabilities, PlatformFeature } from './utils/platform-capabilities.js';
+
+export type {
+  WcagLevel,
+  ContrastOptions,
+} from './validators/contrast-validator.js';
+
+export type {
+  ReferenceIssue,
+  TokenValueType,
+} from './compiler/token-resolver.js';
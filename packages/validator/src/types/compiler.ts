@@ -0,0 +1,27 @@
+/**
+ * Type definitions for the token-to-CSS compiler
+ */
+
+/**
+ * A single CSS custom property produced from a token
+ */
+export interface CompiledVariable {
+  /** CSS custom property name (e.g., "--theme-color-primary") */
+  name: string;
+  /** CSS value */
+  value: string;
+  /** Dot-separated token path in tokens.json (e.g., "colors.primary") */
+  tokenPath: string;
+  /** Breakpoint name for responsive values (undefined for the base value) */
+  breakpoint?: string;
+}
+
+/**
+ * Options for compiling tokens to CSS
+ */
+export interface CompileOptions {
+  /** Emit dark mode override blocks for the `dark` category (default: true) */
+  darkMode?: boolean;
+  /** Comment written at the top of the stylesheet (omitted when empty) */
+  header?: string;
+}
@@ -0,0 +1,34 @@
+/**
+ * Project configuration types (.spwigrc.json)
+ */
+
+/**
+ * Severity a rule is reported with; "off" drops it
+ */
+export type RuleSeverity = 'off' | 'warn' | 'error';
+
+/**
+ * Size limits used by the validator
+ */
+export interface ValidatorThresholds {
+  /** Largest overrides.css in bytes before large_overrides is reported */
+  maxOverridesSize?: number;
+  /** Largest preview image or screenshot in bytes */
+  maxImageSize?: number;
+}
+
+/**
+ * Validator configuration
+ */
+export interface ValidatorConfig {
+  /** Severity per rule type (e.g., { "missing_recommended": "off" }) */
+  rules?: Record<string, RuleSeverity>;
+  /** Glob patterns, relative to the theme root, of files whose issues are ignored */
+  ignorePaths?: string[];
+  /** Token paths in dot notation whose issues are ignored, including their children */
+  ignoreTokens?: string[];
+  /** Size limits */
+  thresholds?: ValidatorThresholds;
+  /** Local modules exporting custom rules, relative to the theme root */
+  plugins?: string[];
+}
@@ -230,3 +230,37 @@ export interface DesignTokens {
   /** Other design tokens */
   [key: string]: any;
 }
+
+/**
+ * Widget placement in a header/footer preset
+ */
+export interface WidgetPlacement {
+  /** Widget type from the platform catalog (e.g., 'logo', 'cart') */
+  widget_type: string;
+  /** Zone and position (e.g., 'main-header_left') */
+  zone: string;
+  /** Display order within the zone position */
+  order?: number;
+  /** Widget-specific configuration */
+  config?: Record<string, unknown>;
+}
+
+/**
+ * Header or footer layout preset (presets/headers/*.json, presets/footers/*.json)
+ */
+export interface LayoutPreset {
+  /** Display name */
+  name: string;
+  /** Brief description */
+  description?: string;
+  /** Layout variant */
+  layout_type: string;
+  /** Sticky header (headers only) */
+  is_sticky?: boolean;
+  /** Notification zone above the header (headers only) */
+  enable_notification_zone?: boolean;
+  /** Active zones and their positions */
+  zone_layouts?: Record<string, string[]>;
+  /** Widget placements */
+  widget_placements: WidgetPlacement[];
+}
@@ -0,0 +1,72 @@
+/**
+ * Custom validation rule types
+ */
+
+import type { DesignTokens, LayoutPreset, ThemeManifest } from './manifest.js';
+
+/**
+ * Rule metadata
+ */
+export interface RuleMeta {
+  /** What the rule checks */
+  description?: string;
+  /** Severity for issues that don't set their own (default "warn") */
+  severity?: 'warn' | 'error';
+}
+
+/**
+ * An issue found by a custom rule
+ */
+export interface RuleIssue {
+  message: string;
+  /** File the issue is in, absolute or relative to the theme root */
+  path?: string;
+  /** JSON pointer into the file; line/column are filled in for JSON files the validator read */
+  pointer?: string;
+  /** Line number (1-based) */
+  line?: number;
+  /** Column number (1-based) */
+  column?: number;
+  suggestion?: string;
+  /** Overrides the rule's severity */
+  severity?: 'warn' | 'error';
+}
+
+/**
+ * A header or footer preset file
+ */
+export interface PresetFile {
+  type: 'header' | 'footer';
+  /** Absolute file path */
+  path: string;
+  preset: Partial<LayoutPreset>;
+}
+
+/**
+ * What a custom rule can inspect, and how it reports issues
+ */
+export interface RuleContext {
+  /** Absolute theme directory */
+  themeDir: string;
+  manifest: ThemeManifest;
+  /** Parsed tokens.json, or null when it is missing or invalid */
+  tokens: DesignTokens | null;
+  /** Presets that parsed as JSON */
+  presets: PresetFile[];
+  /** Theme files relative to themeDir, with POSIX separators */
+  files: string[];
+  /** Read a theme file (absolute or relative to themeDir), including unsaved editor contents */
+  readFile(filePath: string): Promise<string>;
+  /** Report an issue; its type is the rule id */
+  report(issue: RuleIssue): void;
+}
+
+/**
+ * A custom validation rule
+ */
+export interface ValidationRule {
+  /** Rule id, used as the issue type (and as the key in .spwigrc.json "rules") */
+  id: string;
+  meta?: RuleMeta;
+  check(context: RuleContext): void | Promise<void>;
+}
@@ -2,6 +2,26 @@
  * Validation result types
  */
 
+import type { SourcePosition } from '../utils/source-position.js';
+
+export interface TextEdit {
+  /** File to edit */
+  path: string;
+  /** Start of the replaced text */
+  start: SourcePosition;
+  /** End of the replaced text (exclusive); equal to start for an insertion */
+  end: SourcePosition;
+  /** Replacement text */
+  newText: string;
+}
+
+export interface Fix {
+  /** What the fix does (e.g., "Add --theme- prefix") */
+  description: string;
+  /** Edits to apply together */
+  edits: TextEdit[];
+}
+
 export interface ValidationError {
   /** Error type/category */
   type: string;
@@ -11,8 +31,16 @@ export interface ValidationError {
   path?: string;
   /** Line number (for template/JSON errors) */
   line?: number;
+  /** Column number (1-based) */
+  column?: number;
+  /** JSON pointer to the offending value (for JSON files) */
+  pointer?: string;
+  /** Suggestion for fixing */
+  suggestion?: string;
   /** Whether this error can be auto-fixed */
   fixable: boolean;
+  /** Edits that fix the error */
+  fix?: Fix;
 }
 
 export interface ValidationWarning {
@@ -22,10 +50,18 @@ export interface ValidationWarning {
   message: string;
   /** File path where warning occurred */
   path?: string;
+  /** Line number (for CSS/JSON warnings) */
+  line?: number;
+  /** Column number (1-based) */
+  column?: number;
+  /** JSON pointer to the offending value (for JSON files) */
+  pointer?: string;
   /** Suggestion for fixing */
   suggestion?: string;
   /** Whether this warning can be auto-fixed */
   fixable: boolean;
+  /** Edits that fix the warning */
+  fix?: Fix;
 }
 
 export interface ValidationResult {
@@ -52,7 +88,7 @@ export function createError(
   return {
     type,
     message,
-    fixable: false,
+    fixable: options.fix !== undefined,
     ...options,
   };
 }
@@ -68,7 +104,7 @@ export function createWarning(
   return {
     type,
     message,
-    fixable: false,
+    fixable: options.fix !== undefined,
     ...options,
   };
 }
@@ -0,0 +1,507 @@
+/**
+ * CSS color helpers
+ * Parsing, validation and WCAG contrast math for token color values
+ */
+
+export interface RgbaColor {
+  /** Red channel (0-255) */
+  r: number;
+  /** Green channel (0-255) */
+  g: number;
+  /** Blue channel (0-255) */
+  b: number;
+  /** Alpha (0-1) */
+  a: number;
+}
+
+export interface ColorCheckResult {
+  /** Whether the value is valid CSS color syntax */
+  valid: boolean;
+  /** sRGB value, when it can be computed without a browser (not for var(), currentColor, color-mix()) */
+  color: RgbaColor | null;
+  /** Why the value was rejected */
+  error?: string;
+}
+
+// CSS Color Module Level 4 named colors
+const NAMED_COLORS: Record<string, string> = {
+  aliceblue: 'f0f8ff', antiquewhite: 'faebd7', aqua: '00ffff', aquamarine: '7fffd4',
+  azure: 'f0ffff', beige: 'f5f5dc', bisque: 'ffe4c4', black: '000000',
+  blanchedalmond: 'ffebcd', blue: '0000ff', blueviolet: '8a2be2', brown: 'a52a2a',
+  burlywood: 'deb887', cadetblue: '5f9ea0', chartreuse: '7fff00', chocolate: 'd2691e',
+  coral: 'ff7f50', cornflowerblue: '6495ed', cornsilk: 'fff8dc', crimson: 'dc143c',
+  cyan: '00ffff', darkblue: '00008b', darkcyan: '008b8b', darkgoldenrod: 'b8860b',
+  darkgray: 'a9a9a9', darkgreen: '006400', darkgrey: 'a9a9a9', darkkhaki: 'bdb76b',
+  darkmagenta: '8b008b', darkolivegreen: '556b2f', darkorange: 'ff8c00', darkorchid: '9932cc',
+  darkred: '8b0000', darksalmon: 'e9967a', darkseagreen: '8fbc8f', darkslateblue: '483d8b',
+  darkslategray: '2f4f4f', darkslategrey: '2f4f4f', darkturquoise: '00ced1', darkviolet: '9400d3',
+  deeppink: 'ff1493', deepskyblue: '00bfff', dimgray: '696969', dimgrey: '696969',
+  dodgerblue: '1e90ff', firebrick: 'b22222', floralwhite: 'fffaf0', forestgreen: '228b22',
+  fuchsia: 'ff00ff', gainsboro: 'dcdcdc', ghostwhite: 'f8f8ff', gold: 'ffd700',
+  goldenrod: 'daa520', gray: '808080', green: '008000', greenyellow: 'adff2f',
+  grey: '808080', honeydew: 'f0fff0', hotpink: 'ff69b4', indianred: 'cd5c5c',
+  indigo: '4b0082', ivory: 'fffff0', khaki: 'f0e68c', lavender: 'e6e6fa',
+  lavenderblush: 'fff0f5', lawngreen: '7cfc00', lemonchiffon: 'fffacd', lightblue: 'add8e6',
+  lightcoral: 'f08080', lightcyan: 'e0ffff', lightgoldenrodyellow: 'fafad2', lightgray: 'd3d3d3',
+  lightgreen: '90ee90', lightgrey: 'd3d3d3', lightpink: 'ffb6c1', lightsalmon: 'ffa07a',
+  lightseagreen: '20b2aa', lightskyblue: '87cefa', lightslategray: '778899', lightslategrey: '778899',
+  lightsteelblue: 'b0c4de', lightyellow: 'ffffe0', lime: '00ff00', limegreen: '32cd32',
+  linen: 'faf0e6', magenta: 'ff00ff', maroon: '800000', mediumaquamarine: '66cdaa',
+  mediumblue: '0000cd', mediumorchid: 'ba55d3', mediumpurple: '9370db', mediumseagreen: '3cb371',
+  mediumslateblue: '7b68ee', mediumspringgreen: '00fa9a', mediumturquoise: '48d1cc', mediumvioletred: 'c71585',
+  midnightblue: '191970', mintcream: 'f5fffa', mistyrose: 'ffe4e1', moccasin: 'ffe4b5',
+  navajowhite: 'ffdead', navy: '000080', oldlace: 'fdf5e6', olive: '808000',
+  olivedrab: '6b8e23', orange: 'ffa500', orangered: 'ff4500', orchid: 'da70d6',
+  palegoldenrod: 'eee8aa', palegreen: '98fb98', paleturquoise: 'afeeee', palevioletred: 'db7093',
+  papayawhip: 'ffefd5', peachpuff: 'ffdab9', peru: 'cd853f', pink: 'ffc0cb',
+  plum: 'dda0dd', powderblue: 'b0e0e6', purple: '800080', rebeccapurple: '663399',
+  red: 'ff0000', rosybrown: 'bc8f8f', royalblue: '4169e1', saddlebrown: '8b4513',
+  salmon: 'fa8072', sandybrown: 'f4a460', seagreen: '2e8b57', seashell: 'fff5ee',
+  sienna: 'a0522d', silver: 'c0c0c0', skyblue: '87ceeb', slateblue: '6a5acd',
+  slategray: '708090', slategrey: '708090', snow: 'fffafa', springgreen: '00ff7f',
+  steelblue: '4682b4', tan: 'd2b48c', teal: '008080', thistle: 'd8bfd8',
+  tomato: 'ff6347', turquoise: '40e0d0', violet: 'ee82ee', wheat: 'f5deb3',
+  white: 'ffffff', whitesmoke: 'f5f5f5', yellow: 'ffff00', yellowgreen: '9acd32',
+};
+
+// Interpolation spaces accepted by color-mix()
+const MIX_COLOR_SPACES = [
+  'srgb', 'srgb-linear', 'display-p3', 'a98-rgb', 'prophoto-rgb', 'rec2020',
+  'lab', 'oklab', 'xyz', 'xyz-d50', 'xyz-d65', 'hsl', 'hwb', 'lch', 'oklch',
+];
+
+const NUMBER = /^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/;
+const ANGLE_UNITS: Record<string, number> = { deg: 1, grad: 0.9, rad: 180 / Math.PI, turn: 360 };
+
+/**
+ * Parse a CSS color value to sRGB
+ * @returns null for invalid colors and for values only a browser can compute (var(), currentColor, color-mix())
+ */
+export function parseColor(value: string): RgbaColor | null {
+  return checkColor(value).color;
+}
+
+/**
+ * Check a value against the CSS color grammar, including channel ranges
+ */
+export function checkColor(value: string): ColorCheckResult {
+  const color = value.trim().toLowerCase();
+
+  if (color === 'transparent') {
+    return valid({ r: 0, g: 0, b: 0, a: 0 });
+  }
+  if (color === 'currentcolor') {
+    return valid(null);
+  }
+  if (Object.prototype.hasOwnProperty.call(NAMED_COLORS, color)) {
+    return valid(hexToRgba(NAMED_COLORS[color]));
+  }
+  if (color.startsWith('#')) {
+    return /^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/.test(color)
+      ? valid(hexToRgba(color.slice(1)))
+      : invalid('hex colors must have 3, 4, 6 or 8 digits');
+  }
+
+  const fn = /^([a-z-]+)\(([\s\S]*)\)$/.exec(color);
+  if (!fn || !isBalanced(fn[2])) {
+    return invalid('not a recognized color format');
+  }
+
+  const [, name, args] = fn;
+  switch (name) {
+    case 'rgb':
+    case 'rgba':
+      return checkRgb(args);
+    case 'hsl':
+    case 'hsla':
+      return checkHsl(args);
+    case 'oklab':
+    case 'oklch':
+      return checkOklab(name, args);
+    case 'color-mix':
+      return checkColorMix(args);
+    case 'var':
+      return checkVar(args);
+    default:
+      return invalid(`unsupported color function ${name}()`);
+  }
+}
+
+/**
+ * Composite a (possibly translucent) color over an opaque backdrop
+ */
+export function blend(color: RgbaColor, backdrop: RgbaColor): RgbaColor {
+  const mix = (top: number, bottom: number) => top * color.a + bottom * (1 - color.a);
+  return {
+    r: mix(color.r, backdrop.r),
+    g: mix(color.g, backdrop.g),
+    b: mix(color.b, backdrop.b),
+    a: 1,
+  };
+}
+
+/**
+ * WCAG 2.x relative luminance of an opaque color
+ */
+export function relativeLuminance(color: RgbaColor): number {
+  const channel = (value: number) => {
+    const srgb = value / 255;
+    return srgb <= 0.03928 ? srgb / 12.92 : Math.pow((srgb + 0.055) / 1.055, 2.4);
+  };
+  return 0.2126 * channel(color.r) + 0.7152 * channel(color.g) + 0.0722 * channel(color.b);
+}
+
+/**
+ * WCAG 2.x contrast ratio between two opaque colors (1 to 21)
+ */
+export function contrastRatio(foreground: RgbaColor, background: RgbaColor): number {
+  const lighter = Math.max(relativeLuminance(foreground), relativeLuminance(background));
+  const darker = Math.min(relativeLuminance(foreground), relativeLuminance(background));
+  return (lighter + 0.05) / (darker + 0.05);
+}
+
+function valid(color: RgbaColor | null): ColorCheckResult {
+  return { valid: true, color };
+}
+
+function invalid(error: string): ColorCheckResult {
+  return { valid: false, color: null, error };
+}
+
+function hexToRgba(hex: string): RgbaColor {
+  const digits = hex.length <= 4 ? [...hex].map((d) => d + d) : hex.match(/../g)!;
+  const [r, g, b, a = 'ff'] = digits;
+  return {
+    r: parseInt(r, 16),
+    g: parseInt(g, 16),
+    b: parseInt(b, 16),
+    a: parseInt(a, 16) / 255,
+  };
+}
+
+/**
+ * Check parentheses are balanced so trailing text can't hide after a nested call
+ */
+function isBalanced(value: string): boolean {
+  let depth = 0;
+  for (const char of value) {
+    if (char === '(') depth++;
+    if (char === ')' && --depth < 0) return false;
+  }
+  return depth === 0;
+}
+
+/**
+ * Split on a separator outside nested parentheses
+ */
+function splitTopLevel(value: string, separator: RegExp): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+
+  for (const char of value) {
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    if (depth === 0 && separator.test(char)) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+
+  return parts.map((part) => part.trim());
+}
+
+/**
+ * Split function arguments into channels and alpha.
+ * Legacy syntax separates with commas; modern syntax uses spaces and "/ alpha".
+ */
+function splitChannels(
+  args: string,
+  allowLegacy: boolean
+): { channels: string[]; alpha?: string; legacy: boolean } | string {
+  const commaParts = splitTopLevel(args, /,/);
+
+  if (commaParts.length > 1) {
+    if (!allowLegacy) return 'comma-separated arguments are not allowed here';
+    if (commaParts.length !== 3 && commaParts.length !== 4) return 'expected 3 channels and an optional alpha';
+    return { channels: commaParts.slice(0, 3), alpha: commaParts[3], legacy: true };
+  }
+
+  const slashParts = splitTopLevel(args, /\//);
+  if (slashParts.length > 2) return 'only one "/" is allowed before the alpha value';
+
+  const channels = splitTopLevel(slashParts[0], /\s/).filter(Boolean);
+  if (channels.length !== 3) return 'expected 3 channels and an optional alpha';
+
+  return { channels, alpha: slashParts[1], legacy: false };
+}
+
+/**
+ * Values resolved at runtime (var(), calc(), env()) can't be range-checked
+ */
+function isDynamic(value: string): boolean {
+  return /^(var|calc|env|min|max|clamp)\(/.test(value);
+}
+
+/**
+ * Parse a number or percentage, scaling percentages so 100% equals `percentScale`
+ * @returns null if the value isn't a number or percentage
+ */
+function parseNumeric(value: string, percentScale: number): { value: number; percent: boolean } | null {
+  if (value.endsWith('%') && NUMBER.test(value.slice(0, -1))) {
+    return { value: (parseFloat(value) / 100) * percentScale, percent: true };
+  }
+  if (NUMBER.test(value)) {
+    return { value: parseFloat(value), percent: false };
+  }
+  return null;
+}
+
+/**
+ * Parse a hue in degrees (bare numbers or deg/grad/rad/turn)
+ */
+function parseHue(value: string): number | null {
+  const match = /^(.*?)(deg|grad|rad|turn)?$/.exec(value)!;
+  if (!NUMBER.test(match[1])) return null;
+  return parseFloat(match[1]) * ANGLE_UNITS[match[2] || 'deg'];
+}
+
+/**
+ * Check an alpha value (0-1 or 0%-100%)
+ * @returns the alpha, null for runtime values, or an error message
+ */
+function checkAlpha(alpha: string | undefined): number | null | string {
+  if (alpha === undefined || alpha === 'none') return 1;
+  if (isDynamic(alpha)) return null;
+
+  const parsed = parseNumeric(alpha, 1);
+  if (!parsed) return `invalid alpha value "${alpha}"`;
+  if (parsed.value < 0 || parsed.value > 1) return `alpha must be between 0 and 1 (or 0% and 100%), got ${alpha}`;
+  return parsed.value;
+}
+
+function checkRgb(args: string): ColorCheckResult {
+  const split = splitChannels(args, true);
+  if (typeof split === 'string') return invalid(split);
+
+  const names = ['red', 'green', 'blue'];
+  const values: number[] = [];
+  let dynamic = false;
+  let percentages = 0;
+
+  for (const [i, channel] of split.channels.entries()) {
+    if (isDynamic(channel)) {
+      dynamic = true;
+      continue;
+    }
+    if (channel === 'none' && !split.legacy) {
+      values.push(0);
+      continue;
+    }
+
+    const parsed = parseNumeric(channel, 255);
+    if (!parsed) return invalid(`invalid ${names[i]} channel "${channel}"`);
+    if (parsed.value < 0 || parsed.value > 255) {
+      return invalid(`${names[i]} channel must be between 0 and 255 (or 0% and 100%), got ${channel}`);
+    }
+    if (parsed.percent) percentages++;
+    values.push(parsed.value);
+  }
+
+  // Legacy syntax can't mix numbers and percentages
+  if (split.legacy && percentages > 0 && percentages < values.length) {
+    return invalid('rgb() channels must be all numbers or all percentages');
+  }
+
+  const alpha = checkAlpha(split.alpha);
+  if (typeof alpha === 'string') return invalid(alpha);
+  if (dynamic || alpha === null) return valid(null);
+
+  const [r, g, b] = values;
+  return valid({ r, g, b, a: alpha });
+}
+
+function checkHsl(args: string): ColorCheckResult {
+  const split = splitChannels(args, true);
+  if (typeof split === 'string') return invalid(split);
+
+  const [hueValue, ...rest] = split.channels;
+  let dynamic = false;
+
+  let hue = 0;
+  if (isDynamic(hueValue)) {
+    dynamic = true;
+  } else if (hueValue !== 'none' || split.legacy) {
+    const parsed = parseHue(hueValue);
+    if (parsed === null) return invalid(`invalid hue "${hueValue}"`);
+    hue = parsed;
+  }
+
+  const names = ['saturation', 'lightness'];
+  const values: number[] = [];
+  for (const [i, channel] of rest.entries()) {
+    if (isDynamic(channel)) {
+      dynamic = true;
+      continue;
+    }
+    if (channel === 'none' && !split.legacy) {
+      values.push(0);
+      continue;
+    }
+
+    const parsed = parseNumeric(channel, 100);
+    // Legacy syntax requires percentages; modern syntax also takes bare numbers
+    if (!parsed || (split.legacy && !parsed.percent)) {
+      return invalid(`${names[i]} must be a percentage, got "${channel}"`);
+    }
+    if (parsed.value < 0 || parsed.value > 100) {
+      return invalid(`${names[i]} must be between 0% and 100%, got ${channel}`);
+    }
+    values.push(parsed.value / 100);
+  }
+
+  const alpha = checkAlpha(split.alpha);
+  if (typeof alpha === 'string') return invalid(alpha);
+  if (dynamic || alpha === null) return valid(null);
+
+  return valid({ ...hslToRgb(hue, values[0], values[1]), a: alpha });
+}
+
+function checkOklab(name: 'oklab' | 'oklch', args: string): ColorCheckResult {
+  const split = splitChannels(args, false);
+  if (typeof split === 'string') return invalid(`${name}(): ${split}`);
+
+  const [lightnessValue, second, third] = split.channels;
+  const values: number[] = [];
+  let dynamic = false;
+
+  for (const [i, channel] of [lightnessValue, second, third].entries()) {
+    if (isDynamic(channel)) {
+      dynamic = true;
+      continue;
+    }
+    if (channel === 'none') {
+      values.push(0);
+      continue;
+    }
+
+    if (name === 'oklch' && i === 2) {
+      const hue = parseHue(channel);
+      if (hue === null) return invalid(`invalid hue "${channel}"`);
+      values.push(hue);
+      continue;
+    }
+
+    // Lightness: 100% = 1; a/b/chroma: 100% = 0.4
+    const parsed = parseNumeric(channel, i === 0 ? 1 : 0.4);
+    if (!parsed) return invalid(`invalid ${name}() channel "${channel}"`);
+    if (i === 0 && (parsed.value < 0 || parsed.value > 1)) {
+      return invalid(`lightness must be between 0 and 1 (or 0% and 100%), got ${channel}`);
+    }
+    if (name === 'oklch' && i === 1 && parsed.value < 0) {
+      return invalid(`chroma can't be negative, got ${channel}`);
+    }
+    values.push(parsed.value);
+  }
+
+  const alpha = checkAlpha(split.alpha);
+  if (typeof alpha === 'string') return invalid(alpha);
+  if (dynamic || alpha === null) return valid(null);
+
+  const [lightness, x, y] = values;
+  const [a, b] =
+    name === 'oklch'
+      ? [x * Math.cos((y * Math.PI) / 180), x * Math.sin((y * Math.PI) / 180)]
+      : [x, y];
+  return valid({ ...oklabToRgb(lightness, a, b), a: alpha });
+}
+
+function checkColorMix(args: string): ColorCheckResult {
+  const parts = splitTopLevel(args, /,/);
+  if (parts.length !== 3) {
+    return invalid('color-mix() takes a color space and two colors');
+  }
+
+  const space = /^in\s+([a-z0-9-]+)(\s+(shorter|longer|increasing|decreasing)\s+hue)?$/.exec(parts[0]);
+  if (!space || !MIX_COLOR_SPACES.includes(space[1])) {
+    return invalid(`color-mix() needs a supported interpolation space (e.g., "in srgb"), got "${parts[0]}"`);
+  }
+
+  for (const part of parts.slice(1)) {
+    const tokens = splitTopLevel(part, /\s/).filter(Boolean);
+    const percentages = tokens.filter((token) => token.endsWith('%'));
+    const colorValue = tokens.filter((token) => !token.endsWith('%'));
+
+    if (percentages.length > 1 || colorValue.length !== 1) {
+      return invalid(`invalid color-mix() argument "${part}"`);
+    }
+    if (percentages.length === 1) {
+      const parsed = parseNumeric(percentages[0], 100);
+      if (!parsed || parsed.value < 0 || parsed.value > 100) {
+        return invalid(`color-mix() percentages must be between 0% and 100%, got ${percentages[0]}`);
+      }
+    }
+
+    const inner = checkColor(colorValue[0]);
+    if (!inner.valid) return inner;
+  }
+
+  return valid(null);
+}
+
+function checkVar(args: string): ColorCheckResult {
+  const [name, ...fallback] = splitTopLevel(args, /,/);
+
+  if (!/^--theme-[a-z0-9_-]+$/.test(name)) {
+    return invalid(`only --theme-* variables can be referenced, got "${name}"`);
+  }
+  if (fallback.length > 0) {
+    const inner = checkColor(fallback.join(','));
+    if (!inner.valid) return { ...inner, error: `invalid var() fallback: ${inner.error}` };
+  }
+
+  return valid(null);
+}
+
+function hslToRgb(hue: number, saturation: number, lightness: number): Omit<RgbaColor, 'a'> {
+  const h = (((hue % 360) + 360) % 360) / 360;
+  const q = lightness < 0.5 ? lightness * (1 + saturation) : lightness + saturation - lightness * saturation;
+  const p = 2 * lightness - q;
+
+  const channel = (t: number) => {
+    const k = (t + 1) % 1;
+    if (k < 1 / 6) return p + (q - p) * 6 * k;
+    if (k < 1 / 2) return q;
+    if (k < 2 / 3) return p + (q - p) * (2 / 3 - k) * 6;
+    return p;
+  };
+
+  return {
+    r: channel(h + 1 / 3) * 255,
+    g: channel(h) * 255,
+    b: channel(h - 1 / 3) * 255,
+  };
+}
+
+/**
+ * Convert OKLab to sRGB, clipping out-of-gamut colors
+ */
+function oklabToRgb(lightness: number, a: number, b: number): Omit<RgbaColor, 'a'> {
+  const l = Math.pow(lightness + 0.3963377774 * a + 0.2158037573 * b, 3);
+  const m = Math.pow(lightness - 0.1055613458 * a - 0.0638541728 * b, 3);
+  const s = Math.pow(lightness - 0.0894841775 * a - 1.291485548 * b, 3);
+
+  const encode = (linear: number) => {
+    const srgb = linear <= 0.0031308 ? 12.92 * linear : 1.055 * Math.pow(linear, 1 / 2.4) - 0.055;
+    return Math.min(1, Math.max(0, srgb)) * 255;
+  };
+
+  return {
+    r: encode(4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s),
+    g: encode(-1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s),
+    b: encode(-0.0041960863 * l - 0.7034186147 * m + 1.707614701 * s),
+  };
+}
@@ -0,0 +1,130 @@
+/**
+ * Lightweight CSS scanning helpers
+ * Enough structure for linting overrides.css without a full CSS parser
+ */
+
+import { SourcePosition, createPositionLookup } from './source-position.js';
+
+export interface CssVariableReference extends SourcePosition {
+  /** Custom property name (e.g., "--theme-color-primary") */
+  name: string;
+  /** Offset of the name in the source */
+  offset: number;
+}
+
+/**
+ * Replace comments with whitespace so offsets and line numbers stay intact
+ */
+export function stripComments(css: string): string {
+  return css.replace(/\/\*[\s\S]*?(\*\/|$)/g, (comment) => comment.replace(/[^\n]/g, ' '));
+}
+
+/**
+ * Find every var() reference to a custom property with the given prefix
+ */
+export function findVariableReferences(css: string, prefix = '--'): CssVariableReference[] {
+  const source = stripComments(css);
+  const getPosition = createPositionLookup(source);
+  const references: CssVariableReference[] = [];
+  const pattern = /var\(\s*(--[A-Za-z0-9_-]+)/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(source)) !== null) {
+    const name = match[1];
+    if (!name.startsWith(prefix)) continue;
+
+    const offset = match.index + match[0].length - name.length;
+    references.push({ name, offset, ...getPosition(offset) });
+  }
+
+  return references;
+}
+
+/**
+ * Find custom properties declared in the stylesheet (e.g., `--theme-glow: ...;`)
+ */
+export function findVariableDefinitions(css: string): Set<string> {
+  const source = stripComments(css);
+  const definitions = new Set<string>();
+  const pattern = /(?:^|[{;\s])(--[A-Za-z0-9_-]+)\s*:/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(source)) !== null) {
+    definitions.add(match[1]);
+  }
+
+  return definitions;
+}
+
+export interface CssDeclaration extends SourcePosition {
+  /** Property name, lowercased (e.g., "margin-left") */
+  property: string;
+  /** Value without surrounding whitespace, including any !important */
+  value: string;
+  /** Offset of the property name in the source */
+  offset: number;
+  /** Offsets of the value in the source (end exclusive) */
+  valueOffset: number;
+  valueEnd: number;
+  /** Offset just past the declaration, at its ";" or the closing "}" */
+  end: number;
+  /** Selectors and at-rule preludes of the enclosing blocks, outermost first */
+  context: string[];
+}
+
+/**
+ * Find the property declarations inside rule blocks. Semicolons and braces in strings
+ * and parentheses (e.g., data: URLs) don't end a declaration.
+ */
+export function findDeclarations(css: string): CssDeclaration[] {
+  const source = stripComments(css);
+  const getPosition = createPositionLookup(source);
+  const declarations: CssDeclaration[] = [];
+  const context: string[] = [];
+  let start = 0;
+  let depth = 0;
+  let quote: string | null = null;
+
+  const flush = (end: number) => {
+    const match = /^(\s*)([A-Za-z-][A-Za-z0-9_-]*)(\s*:\s*)([\s\S]*?)\s*$/.exec(source.slice(start, end));
+    if (match && context.length > 0) {
+      const offset = start + match[1].length;
+      const valueOffset = offset + match[2].length + match[3].length;
+      declarations.push({
+        property: match[2].toLowerCase(),
+        value: match[4],
+        offset,
+        valueOffset,
+        valueEnd: valueOffset + match[4].length,
+        end,
+        context: [...context],
+        ...getPosition(offset),
+      });
+    }
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quote) {
+      if (char === '\\') i++;
+      else if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '(') {
+      depth++;
+    } else if (char === ')') {
+      depth = Math.max(0, depth - 1);
+    } else if (depth > 0) {
+      continue;
+    } else if (char === '{') {
+      context.push(source.slice(start, i).trim());
+      start = i + 1;
+    } else if (char === ';' || char === '}') {
+      flush(i);
+      if (char === '}') context.pop();
+      start = i + 1;
+    }
+  }
+
+  return declarations;
+}
@@ -0,0 +1,123 @@
+/**
+ * Image header sniffing
+ * Detects PNG, JPEG, WebP and GIF images and reads their pixel dimensions without decoding them
+ */
+
+export type ImageFormat = 'png' | 'jpeg' | 'webp' | 'gif';
+
+export interface ImageInfo {
+  format: ImageFormat;
+  width: number;
+  height: number;
+}
+
+/**
+ * Image with the theme-relative file it was read from
+ */
+export interface ImageFileInfo extends ImageInfo {
+  file: string;
+}
+
+/**
+ * Preview image and screenshot dimensions, reported in themeInfo.images
+ */
+export interface ThemeImages {
+  preview?: ImageFileInfo;
+  screenshots: ImageFileInfo[];
+}
+
+/**
+ * Format each image file extension should contain
+ */
+export const IMAGE_EXTENSIONS: Record<string, ImageFormat> = {
+  '.png': 'png',
+  '.jpg': 'jpeg',
+  '.jpeg': 'jpeg',
+  '.webp': 'webp',
+  '.gif': 'gif',
+};
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+/**
+ * Detect the format and dimensions of an image
+ * @returns null when the data isn't a complete enough PNG, JPEG, WebP or GIF header
+ */
+export function readImageInfo(buffer: Buffer): ImageInfo | null {
+  if (buffer.length >= 24 && buffer.subarray(0, 8).equals(PNG_SIGNATURE)) {
+    // IHDR is always the first chunk
+    return image('png', buffer.readUInt32BE(16), buffer.readUInt32BE(20));
+  }
+  if (buffer.length >= 10 && /^GIF8[79]a$/.test(buffer.toString('latin1', 0, 6))) {
+    return image('gif', buffer.readUInt16LE(6), buffer.readUInt16LE(8));
+  }
+  if (buffer.length >= 12 && buffer.toString('latin1', 0, 4) === 'RIFF' && buffer.toString('latin1', 8, 12) === 'WEBP') {
+    return readWebP(buffer);
+  }
+  if (buffer.length >= 4 && buffer[0] === 0xff && buffer[1] === 0xd8) {
+    return readJpeg(buffer);
+  }
+  return null;
+}
+
+function readWebP(buffer: Buffer): ImageInfo | null {
+  const chunk = buffer.toString('latin1', 12, 16);
+
+  if (chunk === 'VP8 ' && buffer.length >= 30) {
+    // Lossy: 3-byte frame tag and 3-byte start code, then 14-bit dimensions
+    return image('webp', buffer.readUInt16LE(26) & 0x3fff, buffer.readUInt16LE(28) & 0x3fff);
+  }
+  if (chunk === 'VP8L' && buffer.length >= 25) {
+    // Lossless: signature byte, then 14-bit width - 1 and height - 1
+    const bits = buffer.readUInt32LE(21);
+    return image('webp', (bits & 0x3fff) + 1, ((bits >> 14) & 0x3fff) + 1);
+  }
+  if (chunk === 'VP8X' && buffer.length >= 30) {
+    // Extended: 24-bit canvas width - 1 and height - 1
+    return image('webp', buffer.readUIntLE(24, 3) + 1, buffer.readUIntLE(27, 3) + 1);
+  }
+  return null;
+}
+
+function readJpeg(buffer: Buffer): ImageInfo | null {
+  let offset = 2;
+
+  while (offset + 4 <= buffer.length) {
+    if (buffer[offset] !== 0xff) {
+      return null;
+    }
+    const marker = buffer[offset + 1];
+    if (marker === 0xff) {
+      // Fill byte
+      offset++;
+      continue;
+    }
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd9)) {
+      // Markers without a length
+      offset += 2;
+      continue;
+    }
+
+    // Start of frame (SOF0-SOF15, except DHT, JPG and DAC) holds the dimensions
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      if (offset + 9 > buffer.length) {
+        return null;
+      }
+      return image('jpeg', buffer.readUInt16BE(offset + 7), buffer.readUInt16BE(offset + 5));
+    }
+    offset += 2 + buffer.readUInt16BE(offset + 2);
+  }
+
+  return null;
+}
+
+function image(format: ImageFormat, width: number, height: number): ImageInfo | null {
+  return width > 0 && height > 0 ? { format, width, height } : null;
+}
+
+/**
+ * Display name of a format (e.g. "JPEG")
+ */
+export function formatName(format: ImageFormat): string {
+  return format === 'webp' ? 'WebP' : format.toUpperCase();
+}
@@ -0,0 +1,300 @@
+/**
+ * Position-preserving JSON parser
+ * Records where every value (and property key) sits in the source, keyed by JSON pointer
+ */
+
+import { SourcePosition } from './source-position.js';
+
+export interface JsonLocation {
+  /** Position of the property key (absent for array items and the root) */
+  key?: SourcePosition;
+  /** Start of the value */
+  value: SourcePosition;
+  /** End of the value (exclusive) */
+  valueEnd: SourcePosition;
+}
+
+/** JSON pointer (RFC 6901) → location */
+export type JsonSourceMap = Map<string, JsonLocation>;
+
+export interface ParsedJson<T = unknown> {
+  data: T;
+  pointers: JsonSourceMap;
+}
+
+/**
+ * JSON syntax error with the position of the offending character
+ */
+export class JsonParseError extends SyntaxError implements SourcePosition {
+  line: number;
+  column: number;
+
+  constructor(message: string, position: SourcePosition) {
+    super(`${message} at line ${position.line} column ${position.column}`);
+    this.name = 'JsonParseError';
+    this.line = position.line;
+    this.column = position.column;
+  }
+}
+
+/**
+ * Build a JSON pointer from path segments
+ */
+export function jsonPointer(...segments: Array<string | number>): string {
+  return segments.map((segment) => '/' + String(segment).replace(/~/g, '~0').replace(/\//g, '~1')).join('');
+}
+
+/**
+ * Find the source position for a pointer: the property key when there is one, else the value.
+ * Pointers to missing members fall back to the nearest existing parent.
+ */
+export function locatePointer(pointers: JsonSourceMap, pointer: string): SourcePosition | null {
+  let current = pointer;
+
+  for (;;) {
+    const location = pointers.get(current);
+    if (location) {
+      return location.key || location.value;
+    }
+    if (current === '') {
+      return null;
+    }
+    current = current.slice(0, current.lastIndexOf('/'));
+  }
+}
+
+/**
+ * Fill in line/column for a diagnostic that has a JSON pointer but no position yet
+ */
+export function withJsonPosition<T extends { pointer?: string; line?: number; column?: number }>(
+  item: T,
+  pointers: JsonSourceMap | null | undefined
+): T {
+  if (!pointers || item.pointer === undefined || item.line !== undefined) {
+    return item;
+  }
+  const position = locatePointer(pointers, item.pointer);
+  return position ? { ...item, ...position } : item;
+}
+
+/**
+ * Parse JSON text, recording the location of every value
+ * @throws JsonParseError on invalid JSON
+ */
+export function parseJsonWithPointers<T = unknown>(text: string): ParsedJson<T> {
+  const parser = new JsonSourceParser(text);
+  return { data: parser.parse() as T, pointers: parser.pointers };
+}
+
+class JsonSourceParser {
+  readonly pointers: JsonSourceMap = new Map();
+  private offset = 0;
+  private line = 1;
+  private column = 1;
+
+  constructor(private text: string) {
+    // Tolerate a UTF-8 byte order mark, as editors sometimes add one
+    if (text.charCodeAt(0) === 0xfeff) {
+      this.offset = 1;
+    }
+  }
+
+  parse(): unknown {
+    this.skipWhitespace();
+    const value = this.parseValue('');
+    this.skipWhitespace();
+    if (this.offset < this.text.length) {
+      this.fail(`Unexpected ${this.describe()} after JSON data`);
+    }
+    return value;
+  }
+
+  private parseValue(pointer: string, key?: SourcePosition): unknown {
+    const start = this.position();
+    let value: unknown;
+
+    switch (this.peek()) {
+      case '{':
+        value = this.parseObject(pointer);
+        break;
+      case '[':
+        value = this.parseArray(pointer);
+        break;
+      case '"':
+        value = this.parseString();
+        break;
+      case 't':
+        value = this.parseLiteral('true', true);
+        break;
+      case 'f':
+        value = this.parseLiteral('false', false);
+        break;
+      case 'n':
+        value = this.parseLiteral('null', null);
+        break;
+      default:
+        value = this.parseNumber();
+    }
+
+    this.pointers.set(pointer, { ...(key ? { key } : {}), value: start, valueEnd: this.position() });
+    return value;
+  }
+
+  private parseObject(pointer: string): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    this.advance(); // {
+    this.skipWhitespace();
+
+    if (this.peek() === '}') {
+      this.advance();
+      return result;
+    }
+
+    for (;;) {
+      if (this.peek() !== '"') {
+        this.fail(`Expected property name but found ${this.describe()}`);
+      }
+      const keyPosition = this.position();
+      const name = this.parseString();
+
+      this.skipWhitespace();
+      this.expect(':');
+      this.skipWhitespace();
+
+      // Define rather than assign, so "__proto__" is an own key as with JSON.parse
+      Object.defineProperty(result, name, {
+        value: this.parseValue(pointer + jsonPointer(name), keyPosition),
+        enumerable: true,
+        writable: true,
+        configurable: true,
+      });
+
+      this.skipWhitespace();
+      if (this.peek() === ',') {
+        this.advance();
+        this.skipWhitespace();
+        continue;
+      }
+      this.expect('}');
+      return result;
+    }
+  }
+
+  private parseArray(pointer: string): unknown[] {
+    const result: unknown[] = [];
+    this.advance(); // [
+    this.skipWhitespace();
+
+    if (this.peek() === ']') {
+      this.advance();
+      return result;
+    }
+
+    for (;;) {
+      result.push(this.parseValue(pointer + jsonPointer(result.length)));
+
+      this.skipWhitespace();
+      if (this.peek() === ',') {
+        this.advance();
+        this.skipWhitespace();
+        continue;
+      }
+      this.expect(']');
+      return result;
+    }
+  }
+
+  private parseString(): string {
+    const start = this.offset;
+    this.advance(); // opening quote
+
+    while (this.offset < this.text.length) {
+      const char = this.text[this.offset];
+      if (char === '"') {
+        this.advance();
+        // Escapes were validated while scanning, so JSON.parse can decode them
+        return JSON.parse(this.text.slice(start, this.offset));
+      }
+      if (char === '\\') {
+        this.advance();
+        const escape = this.peek();
+        if (escape === 'u') {
+          if (!/^[0-9a-fA-F]{4}$/.test(this.text.slice(this.offset + 1, this.offset + 5))) {
+            this.fail('Invalid unicode escape in string');
+          }
+          this.advance(5);
+        } else if (escape !== undefined && '"\\/bfnrt'.includes(escape)) {
+          this.advance();
+        } else {
+          this.fail('Invalid escape character in string');
+        }
+        continue;
+      }
+      if (char < ' ') {
+        this.fail('Unescaped control character in string');
+      }
+      this.advance();
+    }
+
+    return this.fail('Unterminated string');
+  }
+
+  private parseNumber(): number {
+    const match = /^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?/.exec(this.text.slice(this.offset, this.offset + 64));
+    if (!match) {
+      this.fail(`Unexpected ${this.describe()}`);
+    }
+    this.advance(match![0].length);
+    return Number(match![0]);
+  }
+
+  private parseLiteral<T>(literal: string, value: T): T {
+    if (this.text.slice(this.offset, this.offset + literal.length) !== literal) {
+      this.fail(`Unexpected ${this.describe()}`);
+    }
+    this.advance(literal.length);
+    return value;
+  }
+
+  private skipWhitespace(): void {
+    while (this.offset < this.text.length && ' \t\n\r'.includes(this.text[this.offset])) {
+      this.advance();
+    }
+  }
+
+  private expect(char: string): void {
+    if (this.peek() !== char) {
+      this.fail(`Expected "${char}" but found ${this.describe()}`);
+    }
+    this.advance();
+  }
+
+  private peek(): string | undefined {
+    return this.text[this.offset];
+  }
+
+  private advance(count = 1): void {
+    for (let i = 0; i < count && this.offset < this.text.length; i++) {
+      if (this.text[this.offset] === '\n') {
+        this.line++;
+        this.column = 1;
+      } else {
+        this.column++;
+      }
+      this.offset++;
+    }
+  }
+
+  private position(): SourcePosition {
+    return { line: this.line, column: this.column };
+  }
+
+  private describe(): string {
+    const char = this.peek();
+    return char === undefined ? 'end of input' : `character ${JSON.stringify(char)}`;
+  }
+
+  private fail(message: string): never {
+    throw new JsonParseError(message, this.position());
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * Theme package format shared by `spwig package` and the package validator
+ */
+
+import crypto from 'crypto';
+import path from 'path';
+
+/**
+ * File and directory names left out of packages ("*.ext" matches by extension)
+ */
+export const PACKAGE_EXCLUDE_PATTERNS = [
+  '__pycache__',
+  '*.pyc',
+  '.DS_Store',
+  '.git',
+  '.gitignore',
+  'node_modules',
+  '.env',
+  '*.log',
+  'dist',
+  'build',
+  '.vscode',
+  '.idea',
+  '.spwigrc.json',
+];
+
+/**
+ * Whether a file or directory name is left out of packages
+ */
+export function isExcludedFromPackage(name: string): boolean {
+  return PACKAGE_EXCLUDE_PATTERNS.some((pattern) =>
+    pattern.startsWith('*') ? name.endsWith(pattern.substring(1)) : name === pattern
+  );
+}
+
+/**
+ * Content checksum recorded in a packaged manifest.json: SHA-256 over the sorted SHA-256 hashes
+ * of every file except manifest.json (which holds the checksum)
+ * @param fileHashes - Hex SHA-256 per file, keyed by path
+ */
+export function contentChecksum(fileHashes: Map<string, string>): string {
+  const combined = crypto.createHash('sha256');
+  const hashes = [...fileHashes]
+    .filter(([filePath]) => path.basename(filePath) !== 'manifest.json')
+    .map(([, hash]) => hash)
+    .sort();
+  for (const hash of hashes) {
+    combined.update(hash);
+  }
+  return `sha256:${combined.digest('hex')}`;
+}
@@ -0,0 +1,137 @@
+/**
+ * Platform capability table
+ * Which platform versions support the tokens, preset layout types and widgets a theme uses
+ */
+
+import path from 'path';
+import { fileURLToPath } from 'url';
+import fs from 'fs-extra';
+import { DesignTokens } from '../types/manifest.js';
+import { PresetFile } from '../types/rule.js';
+import { jsonPointer } from './json-source-map.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const CAPABILITIES_PATH = path.join(__dirname, '../../assets/platform_capabilities.json');
+
+/**
+ * Issue types reported when checking a theme against a platform version
+ */
+export const PLATFORM_COMPATIBILITY_TYPES = [
+  'platform_out_of_range',
+  'unsupported_token',
+  'unsupported_layout_type',
+  'unsupported_widget',
+];
+
+/**
+ * Capability table shipped with the validator (assets/platform_capabilities.json).
+ * Values are semver ranges of the platform versions supporting a feature.
+ */
+export interface PlatformCapabilities {
+  /** Latest platform version the table describes */
+  platform_version: string;
+  /** Platform versions running themes built with each SDK version */
+  sdk_versions: Record<string, string>;
+  /** Token paths in dot notation */
+  tokens: Record<string, string>;
+  layout_types: Record<'header' | 'footer', Record<string, string>>;
+  widgets: Record<string, string>;
+}
+
+/**
+ * A versioned feature used by a theme
+ */
+export interface PlatformFeature {
+  kind: 'token' | 'layout_type' | 'widget';
+  /** Token path, layout type or widget type */
+  name: string;
+  /** Platform versions supporting it */
+  range: string;
+  /** Preset type, for layout types and widgets */
+  presetType?: 'header' | 'footer';
+  /** File and JSON pointer where the theme uses it */
+  path: string;
+  pointer: string;
+}
+
+let capabilities: Promise<PlatformCapabilities> | null = null;
+
+/**
+ * Load the capability table
+ */
+export function loadPlatformCapabilities(): Promise<PlatformCapabilities> {
+  if (!capabilities) {
+    capabilities = fs.readJSON(CAPABILITIES_PATH);
+  }
+  return capabilities;
+}
+
+/**
+ * List the features in the capability table that a theme uses, with where it uses them
+ */
+export function findPlatformFeatures(
+  table: PlatformCapabilities,
+  tokens: DesignTokens | null,
+  tokensPath: string,
+  presets: PresetFile[]
+): PlatformFeature[] {
+  const features: PlatformFeature[] = [];
+
+  for (const [tokenPath, range] of Object.entries(table.tokens)) {
+    const segments = tokenPath.split('.');
+    let value: unknown = tokens;
+    for (const segment of segments) {
+      value = value && typeof value === 'object' ? (value as Record<string, unknown>)[segment] : undefined;
+    }
+    if (value !== undefined) {
+      features.push({ kind: 'token', name: tokenPath, range, path: tokensPath, pointer: jsonPointer(...segments) });
+    }
+  }
+
+  for (const { type, path: presetPath, preset } of presets) {
+    const layoutRange = preset.layout_type ? table.layout_types[type]?.[preset.layout_type] : undefined;
+    if (preset.layout_type && layoutRange) {
+      features.push({
+        kind: 'layout_type',
+        name: preset.layout_type,
+        range: layoutRange,
+        presetType: type,
+        path: presetPath,
+        pointer: '/layout_type',
+      });
+    }
+
+    const placements = Array.isArray(preset.widget_placements) ? preset.widget_placements : [];
+    for (const [index, placement] of placements.entries()) {
+      const widgetRange = placement?.widget_type ? table.widgets[placement.widget_type] : undefined;
+      if (widgetRange) {
+        features.push({
+          kind: 'widget',
+          name: placement.widget_type,
+          range: widgetRange,
+          presetType: type,
+          path: presetPath,
+          pointer: jsonPointer('widget_placements', index, 'widget_type'),
+        });
+      }
+    }
+  }
+
+  return features;
+}
+
+/**
+ * Feature name for messages, e.g. 'Widget "loyalty_balance"'
+ */
+export function describePlatformFeature(feature: PlatformFeature): string {
+  switch (feature.kind) {
+    case 'token':
+      return `Token "${feature.name}"`;
+    case 'layout_type':
+      return `${feature.presetType === 'footer' ? 'Footer' : 'Header'} layout "${feature.name}"`;
+    default:
+      return `Widget "${feature.name}"`;
+  }
+}
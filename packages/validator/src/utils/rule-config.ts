@@ -0,0 +1,127 @@
+/**
+ * Project rule configuration
+ * Applies .spwigrc.json severities and ignores to validation results
+ */
+
+import path from 'path';
+import { ValidatorConfig, ValidatorThresholds } from '../types/config.js';
+import { ValidationError, ValidationWarning } from '../types/validation-result.js';
+
+/** Config file looked up in the theme root */
+export const CONFIG_FILE_NAME = '.spwigrc.json';
+
+export const DEFAULT_THRESHOLDS: Required<ValidatorThresholds> = {
+  maxOverridesSize: 1024 * 1024,
+  maxImageSize: 5 * 1024 * 1024,
+};
+
+export interface ConfiguredDiagnostics {
+  errors: ValidationError[];
+  warnings: ValidationWarning[];
+}
+
+/**
+ * Thresholds from a config, with defaults for the ones it doesn't set
+ */
+export function getThresholds(config: ValidatorConfig): Required<ValidatorThresholds> {
+  return { ...DEFAULT_THRESHOLDS, ...config.thresholds };
+}
+
+/**
+ * Drop ignored and disabled diagnostics, and move the rest to the severity configured for their rule
+ * @param baseDir - Directory ignorePaths are relative to (the theme root)
+ * @param tokensPath - Tokens file that ignoreTokens applies to
+ */
+export function applyRuleConfig(
+  diagnostics: ConfiguredDiagnostics,
+  config: ValidatorConfig,
+  baseDir: string,
+  tokensPath: string = path.join(baseDir, 'tokens.json')
+): ConfiguredDiagnostics {
+  const pathPatterns = (config.ignorePaths || []).map(globToRegExp);
+  const tokenPatterns = (config.ignoreTokens || []).map(tokenPathToRegExp);
+
+  const isIgnored = (item: ValidationError | ValidationWarning): boolean => {
+    if (!item.path) {
+      return false;
+    }
+    const filePath = path.resolve(item.path);
+    const relativePath = path.relative(baseDir, filePath).split(path.sep).join('/');
+    if (pathPatterns.some((pattern) => pattern.test(relativePath))) {
+      return true;
+    }
+    return (
+      filePath === path.resolve(tokensPath) &&
+      item.pointer !== undefined &&
+      tokenPatterns.some((pattern) => pattern.test(pointerToTokenPath(item.pointer!)))
+    );
+  };
+
+  const result: ConfiguredDiagnostics = { errors: [], warnings: [] };
+  const route = (item: ValidationError | ValidationWarning, severity: 'warn' | 'error') => {
+    if (isIgnored(item)) {
+      return;
+    }
+    switch (config.rules?.[item.type] || severity) {
+      case 'error':
+        result.errors.push(item);
+        break;
+      case 'warn':
+        result.warnings.push(item);
+        break;
+    }
+  };
+
+  diagnostics.errors.forEach((error) => route(error, 'error'));
+  diagnostics.warnings.forEach((warning) => route(warning, 'warn'));
+  return result;
+}
+
+/**
+ * Glob relative to the theme root: ** spans directories, * and ? stay within one.
+ * A pattern naming a directory matches everything inside it.
+ */
+function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  const glob = pattern.replace(/^\.\//, '').replace(/\/+$/, '');
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      // "**/" also matches no directories at all
+      source += glob[i + 2] === '/' ? '(?:.*/)?' : '.*';
+      i += glob[i + 2] === '/' ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+
+  return new RegExp(`^${source}(?:/.*)?$`);
+}
+
+/**
+ * "elements.hero" matches the hero category and every token in it; * matches within one segment
+ */
+function tokenPathToRegExp(tokenPath: string): RegExp {
+  const source = tokenPath.split('*').map(escapeRegExp).join('[^.]*');
+  return new RegExp(`^${source}(?:\\..*)?$`);
+}
+
+/**
+ * "/elements/hero/bg" → "elements.hero.bg"
+ */
+function pointerToTokenPath(pointer: string): string {
+  return pointer
+    .split('/')
+    .slice(1)
+    .map((segment) => segment.replace(/~1/g, '/').replace(/~0/g, '~'))
+    .join('.');
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
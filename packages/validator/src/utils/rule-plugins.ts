@@ -0,0 +1,30 @@
+/**
+ * Load custom validation rules from local modules
+ */
+
+import { pathToFileURL } from 'url';
+import { ValidationRule } from '../types/rule.js';
+
+/**
+ * Import a rule module. It may export an array of rules as `rules`,
+ * or a rule or array of rules as its default export.
+ * @throws Error when the module can't be imported or doesn't export rules
+ */
+export async function loadRulePlugin(modulePath: string): Promise<ValidationRule[]> {
+  const module = await import(pathToFileURL(modulePath).href);
+  const exported = module.rules ?? module.default;
+  const rules: unknown[] = Array.isArray(exported) ? exported : [exported];
+
+  if (rules.length === 0 || !rules.every(isValidationRule)) {
+    throw new Error('Module must export a rule or an array of rules ({ id, check })');
+  }
+  return rules as ValidationRule[];
+}
+
+/**
+ * Whether a value looks like a rule: a string id and a check function
+ */
+export function isValidationRule(value: unknown): value is ValidationRule {
+  const rule = value as Partial<ValidationRule> | null;
+  return typeof rule === 'object' && rule !== null && typeof rule.id === 'string' && typeof rule.check === 'function';
+}
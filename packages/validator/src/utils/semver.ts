@@ -0,0 +1,344 @@
+/**
+ * Semantic versioning (semver 2.0.0) parsing, precedence and npm-style ranges
+ */
+
+export interface SemVer {
+  major: number;
+  minor: number;
+  patch: number;
+  /** Pre-release identifiers (e.g. ["beta", 2] for "-beta.2") */
+  prerelease: Array<string | number>;
+  /** Build metadata identifiers, ignored for precedence */
+  build: string[];
+}
+
+export type ReleaseType = 'major' | 'minor' | 'patch';
+
+type Operator = '<' | '<=' | '>' | '>=' | '=';
+
+interface Comparator {
+  operator: Operator;
+  version: SemVer;
+}
+
+/**
+ * Version with missing or wildcard (x, X, *) parts left undefined
+ */
+interface PartialVersion {
+  major?: number;
+  minor?: number;
+  patch?: number;
+  prerelease: Array<string | number>;
+}
+
+const IDENTIFIER = '(?:0|[1-9]\\d*|\\d*[a-zA-Z-][0-9a-zA-Z-]*)';
+const PRERELEASE = `(?:-(${IDENTIFIER}(?:\\.${IDENTIFIER})*))?`;
+const BUILD = '(?:\\+([0-9a-zA-Z-]+(?:\\.[0-9a-zA-Z-]+)*))?';
+const SEMVER = new RegExp(`^(0|[1-9]\\d*)\\.(0|[1-9]\\d*)\\.(0|[1-9]\\d*)${PRERELEASE}${BUILD}$`);
+const PART = '(0|[1-9]\\d*|[xX*])';
+const PARTIAL = new RegExp(`^v?${PART}(?:\\.${PART}(?:\\.${PART}${PRERELEASE}${BUILD})?)?$`);
+
+/**
+ * Parse a full semantic version such as "2.1.0-beta.2+build.5"
+ * @returns null when the version isn't valid semver
+ */
+export function parseSemver(version: string): SemVer | null {
+  const match = SEMVER.exec(version.trim());
+  if (!match) {
+    return null;
+  }
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2]),
+    patch: Number(match[3]),
+    prerelease: parseIdentifiers(match[4]),
+    build: match[5] ? match[5].split('.') : [],
+  };
+}
+
+/**
+ * Compare two parsed versions by semver precedence (build metadata is ignored)
+ * @returns -1 if a < b, 0 if equal, 1 if a > b
+ */
+export function compareSemver(a: SemVer, b: SemVer): number {
+  for (const key of ['major', 'minor', 'patch'] as const) {
+    if (a[key] !== b[key]) {
+      return a[key] < b[key] ? -1 : 1;
+    }
+  }
+
+  // A pre-release sorts before the release it precedes
+  if (a.prerelease.length === 0 || b.prerelease.length === 0) {
+    return Math.sign(b.prerelease.length - a.prerelease.length);
+  }
+
+  for (let i = 0; i < Math.max(a.prerelease.length, b.prerelease.length); i++) {
+    const left = a.prerelease[i];
+    const right = b.prerelease[i];
+    if (left === undefined || right === undefined) {
+      return left === undefined ? -1 : 1;
+    }
+    if (left === right) {
+      continue;
+    }
+    // Numeric identifiers sort before alphanumeric ones
+    if (typeof left !== typeof right) {
+      return typeof left === 'number' ? -1 : 1;
+    }
+    return left < right ? -1 : 1;
+  }
+
+  return 0;
+}
+
+/**
+ * Compare two versions. Missing minor and patch numbers count as 0, so "2.0" equals "2.0.0".
+ * @returns -1 if v1 < v2, 0 if equal, 1 if v1 > v2
+ * @throws TypeError when either isn't a version
+ */
+export function compareVersions(v1: string, v2: string): number {
+  return compareSemver(coerceVersion(v1), coerceVersion(v2));
+}
+
+/**
+ * Next version for a release. As in npm, a pre-release becomes the release it precedes
+ * when that is the part being bumped ("2.1.0-rc.1" → minor → "2.1.0").
+ * @returns null when version isn't valid semver
+ */
+export function incrementVersion(version: string, release: ReleaseType): string | null {
+  const parsed = parseSemver(version);
+  if (!parsed) {
+    return null;
+  }
+
+  let { major, minor, patch } = parsed;
+  const prerelease = parsed.prerelease.length > 0;
+  if (release === 'major') {
+    if (!prerelease || minor !== 0 || patch !== 0) {
+      major++;
+    }
+    minor = 0;
+    patch = 0;
+  } else if (release === 'minor') {
+    if (!prerelease || patch !== 0) {
+      minor++;
+    }
+    patch = 0;
+  } else if (!prerelease) {
+    patch++;
+  }
+  return `${major}.${minor}.${patch}`;
+}
+
+/**
+ * Whether a range such as "^2.1.0", ">=2.0.0 <3.0.0" or "2.x || 3.0.0 - 3.2" is valid
+ */
+export function isValidRange(range: string): boolean {
+  return parseRange(range) !== null;
+}
+
+/**
+ * Whether a version satisfies an npm-style range. Supports comparators (<, <=, >, >=, =),
+ * x-ranges (2.x, 2.1.*), tilde (~2.1.0), caret (^2.1.0), hyphen ranges (2.0 - 2.3) and "||".
+ * As in npm, pre-release versions only match comparators on the same major.minor.patch
+ * unless includePrerelease is set.
+ */
+export function satisfies(version: string, range: string, options: { includePrerelease?: boolean } = {}): boolean {
+  const parsed = parseSemver(version);
+  const sets = parseRange(range);
+  if (!parsed || !sets) {
+    return false;
+  }
+
+  return sets.some((comparators) => {
+    if (!comparators.every((comparator) => test(parsed, comparator))) {
+      return false;
+    }
+    if (parsed.prerelease.length === 0 || options.includePrerelease) {
+      return true;
+    }
+    return comparators.some(
+      ({ version: bound }) =>
+        bound.prerelease.length > 0 &&
+        bound.major === parsed.major &&
+        bound.minor === parsed.minor &&
+        bound.patch === parsed.patch
+    );
+  });
+}
+
+function test(version: SemVer, { operator, version: bound }: Comparator): boolean {
+  const order = compareSemver(version, bound);
+  switch (operator) {
+    case '<':
+      return order < 0;
+    case '<=':
+      return order <= 0;
+    case '>':
+      return order > 0;
+    case '>=':
+      return order >= 0;
+    default:
+      return order === 0;
+  }
+}
+
+/**
+ * Parse a range into alternatives ("||") of comparators that must all match
+ * @returns null when the range is invalid
+ */
+function parseRange(range: string): Comparator[][] | null {
+  const sets: Comparator[][] = [];
+
+  for (const alternative of range.split('||')) {
+    const text = alternative.trim();
+    const hyphen = /^(\S+)\s+-\s+(\S+)$/.exec(text);
+    let comparators: Comparator[] | null;
+
+    if (hyphen) {
+      const from = parsePartial(hyphen[1]);
+      const to = parsePartial(hyphen[2]);
+      comparators = from && to ? [...desugar('>=', from), ...desugar('<=', to)] : null;
+    } else {
+      // Allow a space between an operator and its version (">= 2.0.0")
+      const terms = text.replace(/(<=|>=|<|>|=|~|\^)\s+/g, '$1').split(/\s+/).filter(Boolean);
+      comparators = [];
+      for (const term of terms) {
+        const parsed = parseTerm(term);
+        if (!parsed) {
+          comparators = null;
+          break;
+        }
+        comparators.push(...parsed);
+      }
+    }
+
+    if (!comparators) {
+      return null;
+    }
+    sets.push(comparators);
+  }
+
+  return sets;
+}
+
+function parseTerm(term: string): Comparator[] | null {
+  const match = /^(<=|>=|<|>|=|~>?|\^)?(.+)$/.exec(term);
+  const partial = match && parsePartial(match[2]);
+  if (!match || !partial) {
+    return null;
+  }
+
+  const prefix = match[1];
+  if (prefix === '^') {
+    return caret(partial);
+  }
+  if (prefix === '~' || prefix === '~>') {
+    return tilde(partial);
+  }
+  return desugar((prefix as Operator | undefined) || '=', partial);
+}
+
+/**
+ * Comparators for an operator applied to a partial version (e.g. ">1.2" is ">=1.3.0")
+ */
+function desugar(operator: Operator, partial: PartialVersion): Comparator[] {
+  const { major, minor, patch } = partial;
+
+  if (major === undefined) {
+    // "*" matches everything, "<*" and ">*" nothing
+    return operator === '<' || operator === '>' ? [{ operator: '<', version: version(0, 0, 0, [0]) }] : [];
+  }
+  if (minor !== undefined && patch !== undefined) {
+    return [{ operator, version: version(major, minor, patch, partial.prerelease) }];
+  }
+
+  const lower = version(major, minor ?? 0, 0);
+  const upper = minor === undefined ? version(major + 1, 0, 0, [0]) : version(major, minor + 1, 0, [0]);
+  switch (operator) {
+    case '>':
+      return [{ operator: '>=', version: upper }];
+    case '>=':
+      return [{ operator: '>=', version: lower }];
+    case '<':
+      return [{ operator: '<', version: version(lower.major, lower.minor, 0, [0]) }];
+    case '<=':
+      return [{ operator: '<', version: upper }];
+    default:
+      return [
+        { operator: '>=', version: lower },
+        { operator: '<', version: upper },
+      ];
+  }
+}
+
+/**
+ * ~1.2.3 allows patch changes, ~1 minor changes
+ */
+function tilde(partial: PartialVersion): Comparator[] {
+  const { major, minor, patch } = partial;
+  if (major === undefined || minor === undefined || patch === undefined) {
+    return desugar('=', partial);
+  }
+  return [
+    { operator: '>=', version: version(major, minor, patch, partial.prerelease) },
+    { operator: '<', version: version(major, minor + 1, 0, [0]) },
+  ];
+}
+
+/**
+ * ^1.2.3 allows changes that don't modify the left-most non-zero part
+ */
+function caret(partial: PartialVersion): Comparator[] {
+  const { major, minor, patch } = partial;
+  if (major === undefined) {
+    return [];
+  }
+  if (minor === undefined) {
+    return desugar('=', partial);
+  }
+
+  const lower = version(major, minor, patch ?? 0, partial.prerelease);
+  let upper: SemVer;
+  if (major > 0) {
+    upper = version(major + 1, 0, 0, [0]);
+  } else if (minor > 0 || patch === undefined) {
+    upper = version(0, minor + 1, 0, [0]);
+  } else {
+    upper = version(0, 0, patch + 1, [0]);
+  }
+  return [
+    { operator: '>=', version: lower },
+    { operator: '<', version: upper },
+  ];
+}
+
+function parsePartial(text: string): PartialVersion | null {
+  const match = PARTIAL.exec(text);
+  if (!match) {
+    return null;
+  }
+
+  const parts: Array<number | undefined> = [];
+  for (const part of [match[1], match[2], match[3]]) {
+    // Parts after a wildcard are wildcards too
+    parts.push(part === undefined || /[xX*]/.test(part) || parts.includes(undefined) ? undefined : Number(part));
+  }
+  return { major: parts[0], minor: parts[1], patch: parts[2], prerelease: parseIdentifiers(match[4]) };
+}
+
+function coerceVersion(text: string): SemVer {
+  const partial = parsePartial(text.trim());
+  if (!partial || partial.major === undefined) {
+    throw new TypeError(`Invalid version: ${text}`);
+  }
+  return version(partial.major, partial.minor ?? 0, partial.patch ?? 0, partial.prerelease);
+}
+
+function version(major: number, minor: number, patch: number, prerelease: Array<string | number> = []): SemVer {
+  return { major, minor, patch, prerelease, build: [] };
+}
+
+function parseIdentifiers(text: string | undefined): Array<string | number> {
+  return text ? text.split('.').map((identifier) => (/^\d+$/.test(identifier) ? Number(identifier) : identifier)) : [];
+}
@@ -0,0 +1,58 @@
+/**
+ * Source positions for diagnostics in CSS and JSON files
+ */
+
+export interface SourcePosition {
+  /** 1-based line number */
+  line: number;
+  /** 1-based column number */
+  column: number;
+}
+
+/**
+ * Converts character offsets in one source to line/column positions
+ */
+export type PositionLookup = (offset: number) => SourcePosition;
+
+/**
+ * Index a source's line starts once, so each offset converts with a binary search
+ */
+export function createPositionLookup(source: string): PositionLookup {
+  const lineStarts = [0];
+  for (let i = source.indexOf('\n'); i !== -1; i = source.indexOf('\n', i + 1)) {
+    lineStarts.push(i + 1);
+  }
+
+  return (offset) => {
+    // Last line starting at or before the offset
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (lineStarts[mid] <= offset) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+
+    return { line: low + 1, column: offset - lineStarts[low] + 1 };
+  };
+}
+
+/**
+ * Convert a line/column position back to a character offset
+ */
+export function getOffset(source: string, position: SourcePosition): number {
+  let offset = 0;
+
+  for (let line = 1; line < position.line; line++) {
+    const next = source.indexOf('\n', offset);
+    if (next === -1) {
+      return source.length;
+    }
+    offset = next + 1;
+  }
+
+  return Math.min(offset + position.column - 1, source.length);
+}
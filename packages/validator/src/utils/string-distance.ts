@@ -0,0 +1,51 @@
+/**
+ * String similarity helpers for "did you mean" suggestions
+ */
+
+/**
+ * Levenshtein edit distance between two strings
+ */
+export function editDistance(a: string, b: string): number {
+  if (a === b) return 0;
+  if (a.length === 0) return b.length;
+  if (b.length === 0) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Find the closest candidate within a maximum edit distance
+ * @param maxDistance - Defaults to a third of the value's length, capped at 4
+ */
+export function findClosestMatch(
+  value: string,
+  candidates: Iterable<string>,
+  maxDistance = Math.min(4, Math.ceil(value.length / 3))
+): string | null {
+  let best: string | null = null;
+  let bestDistance = maxDistance + 1;
+
+  for (const candidate of candidates) {
+    // Length difference is a lower bound on the distance
+    if (Math.abs(candidate.length - value.length) >= bestDistance) continue;
+
+    const distance = editDistance(value, candidate);
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+
+  return best;
+}
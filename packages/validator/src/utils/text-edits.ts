@@ -0,0 +1,45 @@
+/**
+ * Apply fix edits to file contents
+ */
+
+import { TextEdit } from '../types/validation-result.js';
+import { getOffset } from './source-position.js';
+
+export interface AppliedEdits {
+  /** Contents with the edits applied */
+  text: string;
+  /** Edits left out because they overlap an earlier one */
+  skipped: TextEdit[];
+}
+
+/**
+ * Apply edits to one file's contents.
+ * Edits are applied in source order; an edit overlapping an earlier one is skipped,
+ * so running the fixer again picks it up against the updated text.
+ */
+export function applyTextEdits(text: string, edits: TextEdit[]): AppliedEdits {
+  const ranges = edits
+    .map((edit, index) => ({
+      edit,
+      index,
+      start: getOffset(text, edit.start),
+      end: getOffset(text, edit.end),
+    }))
+    .sort((a, b) => a.start - b.start || a.end - b.end || a.index - b.index);
+
+  const skipped: TextEdit[] = [];
+  let result = '';
+  let cursor = 0;
+
+  for (const range of ranges) {
+    // Insertions at the same point are kept; anything starting inside a replaced range is not
+    if (range.start < cursor) {
+      skipped.push(range.edit);
+      continue;
+    }
+    result += text.slice(cursor, range.start) + range.edit.newText;
+    cursor = range.end;
+  }
+
+  return { text: result + text.slice(cursor), skipped };
+}
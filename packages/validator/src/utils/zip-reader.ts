@@ -0,0 +1,156 @@
+/**
+ * Minimal ZIP reader
+ * Lists archive entries from the central directory and inflates them on demand (stored and deflate only)
+ */
+
+import zlib from 'zlib';
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+// End of central directory record is 22 bytes plus a comment of up to 64KB
+const MAX_END_RECORD_SEARCH = 22 + 0xffff;
+
+// Creator systems whose external attributes hold Unix mode bits
+const UNIX_HOSTS = new Set([3, 19]); // Unix, OS X
+
+const S_IFMT = 0o170000;
+const S_IFLNK = 0o120000;
+
+export interface ZipEntry {
+  /** Path inside the archive, as stored (forward slashes) */
+  name: string;
+  isDirectory: boolean;
+  isSymlink: boolean;
+  /** Uncompressed size in bytes */
+  size: number;
+  compressedSize: number;
+  encrypted: boolean;
+  /** Read the uncompressed contents */
+  read(): Buffer;
+}
+
+/**
+ * Archive that isn't a readable ZIP file
+ */
+export class ZipFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ZipFormatError';
+  }
+}
+
+/**
+ * List the entries of a ZIP archive
+ * @throws ZipFormatError when the archive is corrupt or uses ZIP64
+ */
+export function readZipEntries(buffer: Buffer): ZipEntry[] {
+  const end = findEndOfCentralDirectory(buffer);
+  const entryCount = buffer.readUInt16LE(end + 10);
+  const directorySize = buffer.readUInt32LE(end + 12);
+  const directoryOffset = buffer.readUInt32LE(end + 16);
+
+  if (entryCount === 0xffff || directoryOffset === 0xffffffff) {
+    throw new ZipFormatError('ZIP64 archives are not supported');
+  }
+  if (directoryOffset + directorySize > end) {
+    throw new ZipFormatError('Central directory is outside the archive');
+  }
+
+  const entries: ZipEntry[] = [];
+  let offset = directoryOffset;
+
+  for (let i = 0; i < entryCount; i++) {
+    if (offset + 46 > buffer.length || buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new ZipFormatError(`Invalid central directory entry ${i + 1}`);
+    }
+
+    const madeBy = buffer.readUInt16LE(offset + 4);
+    const flags = buffer.readUInt16LE(offset + 8);
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const size = buffer.readUInt32LE(offset + 24);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const externalAttributes = buffer.readUInt32LE(offset + 38);
+    const localHeaderOffset = buffer.readUInt32LE(offset + 42);
+    // Bit 11: name is UTF-8; otherwise CP437, which matches UTF-8 for ASCII names
+    const name = buffer.toString(flags & 0x800 ? 'utf8' : 'latin1', offset + 46, offset + 46 + nameLength);
+
+    const mode = UNIX_HOSTS.has(madeBy >> 8) ? externalAttributes >>> 16 : 0;
+    const encrypted = (flags & 0x1) !== 0;
+
+    entries.push({
+      name,
+      isDirectory: name.endsWith('/'),
+      isSymlink: (mode & S_IFMT) === S_IFLNK,
+      size,
+      compressedSize,
+      encrypted,
+      read: () => readEntryData(buffer, name, localHeaderOffset, method, compressedSize, size, encrypted),
+    });
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+function findEndOfCentralDirectory(buffer: Buffer): number {
+  const stop = Math.max(0, buffer.length - MAX_END_RECORD_SEARCH);
+  for (let offset = buffer.length - 22; offset >= stop; offset--) {
+    if (buffer.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+      return offset;
+    }
+  }
+  throw new ZipFormatError('Not a ZIP archive (no end of central directory record)');
+}
+
+function readEntryData(
+  buffer: Buffer,
+  name: string,
+  localHeaderOffset: number,
+  method: number,
+  compressedSize: number,
+  size: number,
+  encrypted: boolean
+): Buffer {
+  if (encrypted) {
+    throw new ZipFormatError(`${name} is encrypted`);
+  }
+  if (localHeaderOffset + 30 > buffer.length || buffer.readUInt32LE(localHeaderOffset) !== LOCAL_FILE_HEADER) {
+    throw new ZipFormatError(`Invalid local header for ${name}`);
+  }
+
+  const nameLength = buffer.readUInt16LE(localHeaderOffset + 26);
+  const extraLength = buffer.readUInt16LE(localHeaderOffset + 28);
+  const start = localHeaderOffset + 30 + nameLength + extraLength;
+  const data = buffer.subarray(start, start + compressedSize);
+
+  let contents: Buffer;
+  switch (method) {
+    case 0:
+      contents = data;
+      break;
+    case 8:
+      // Stop at the declared size, so a small archive can't inflate to gigabytes
+      try {
+        contents = zlib.inflateRawSync(data, { maxOutputLength: Math.max(size, 1) });
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') {
+          throw new ZipFormatError(`${name} inflates to more than its declared ${size} bytes`);
+        }
+        throw new ZipFormatError(`Failed to inflate ${name}: ${error instanceof Error ? error.message : error}`);
+      }
+      break;
+    default:
+      throw new ZipFormatError(`${name} uses unsupported compression method ${method}`);
+  }
+
+  if (contents.length !== size) {
+    throw new ZipFormatError(`${name} is ${contents.length} bytes, but the archive declares ${size}`);
+  }
+  return contents;
+}
@@ -0,0 +1,191 @@
+/**
+ * Contrast Validator
+ * Audits token color pairs against WCAG 2.x contrast requirements
+ */
+
+import {
+  ValidationResult,
+  ValidationError,
+  ValidationWarning,
+  createError,
+  createWarning,
+} from '../types/validation-result.js';
+import { DesignTokens } from '../types/manifest.js';
+import { TokenCompiler } from '../compiler/token-compiler.js';
+import { RgbaColor, blend, contrastRatio, parseColor } from '../utils/color.js';
+import { jsonPointer } from '../utils/json-source-map.js';
+
+export type WcagLevel = 'AA' | 'AAA';
+
+export interface ContrastOptions {
+  /** Level declared in features.accessibility; failures are errors when set */
+  level?: WcagLevel | null;
+  /** Also audit the dark color scheme */
+  darkMode?: boolean;
+  /** Path reported with each result */
+  path?: string;
+}
+
+// Minimum contrast for normal-size text
+const MINIMUM_RATIOS: Record<WcagLevel, number> = {
+  AA: 4.5,
+  AAA: 7,
+};
+
+// Foreground/background token pairs rendered as text on the storefront
+const CONTRAST_PAIRS: Array<{ label: string; foreground: string; background: string }> = [
+  { label: 'Body text', foreground: 'colors.text', background: 'colors.background' },
+  { label: 'Inverse text on primary', foreground: 'colors.text-inverse', background: 'colors.primary' },
+  {
+    label: 'Primary button text',
+    foreground: 'button-primary.solid-text',
+    background: 'button-primary.solid-bg',
+  },
+  { label: 'Menu dropdown text', foreground: 'menu.text-color', background: 'menu.dropdown-background' },
+  { label: 'Header text', foreground: 'header.text-color', background: 'header.background' },
+  { label: 'Footer text', foreground: 'footer.text-color', background: 'footer.background' },
+];
+
+// Page background for translucent colors when the theme doesn't resolve one
+const WHITE: RgbaColor = { r: 255, g: 255, b: 255, a: 1 };
+
+/**
+ * Read the WCAG level from features.accessibility (e.g., "WCAG 2.1 AA")
+ */
+export function parseAccessibilityLevel(declared: string | undefined): WcagLevel | null {
+  if (!declared) return null;
+  if (/\bAAA\b/i.test(declared)) return 'AAA';
+  if (/\bAA\b/i.test(declared)) return 'AA';
+  return null;
+}
+
+export class ContrastValidator {
+  private errors: ValidationError[] = [];
+  private warnings: ValidationWarning[] = [];
+
+  /**
+   * Check every known text/background pair in the light and dark schemes
+   */
+  validate(tokens: DesignTokens, options: ContrastOptions = {}): ValidationResult {
+    this.errors = [];
+    this.warnings = [];
+
+    const variables = new Map<string, string>();
+    const names = new Map<string, string>();
+    for (const variable of new TokenCompiler().collectVariables(tokens)) {
+      if (variable.breakpoint) continue;
+      variables.set(variable.name, variable.value);
+      names.set(variable.tokenPath, variable.name);
+    }
+
+    this.checkScheme(variables, names, '', options, []);
+
+    if (options.darkMode && tokens.dark) {
+      const darkVariables = new Map(variables);
+      const darkKeys: string[] = [];
+      // Mirror the compiler: each dark key replaces its colors counterpart
+      for (const key of Object.keys(tokens.dark)) {
+        if (typeof tokens.colors?.[key] !== 'string') continue;
+        darkKeys.push(key);
+        darkVariables.set(
+          TokenCompiler.getVariableName('colors', [key]),
+          `var(${TokenCompiler.getVariableName('dark', [key])})`
+        );
+      }
+      this.checkScheme(darkVariables, names, 'Dark mode: ', options, darkKeys);
+    }
+
+    return this.buildResult();
+  }
+
+  /**
+   * Check the pairs against one set of variable values
+   * @param darkKeys - Color keys overridden by the dark scheme, reported at their dark token
+   */
+  private checkScheme(
+    variables: Map<string, string>,
+    names: Map<string, string>,
+    prefix: string,
+    options: ContrastOptions,
+    darkKeys: string[]
+  ): void {
+    const pageColor = this.resolveColor('--theme-color-background', variables);
+    const page = pageColor ? blend(pageColor, WHITE) : WHITE;
+    const required = MINIMUM_RATIOS[options.level || 'AA'];
+
+    for (const pair of CONTRAST_PAIRS) {
+      const foregroundName = names.get(pair.foreground);
+      const backgroundName = names.get(pair.background);
+      if (!foregroundName || !backgroundName) continue;
+
+      const foreground = this.resolveColor(foregroundName, variables);
+      const backgroundColor = this.resolveColor(backgroundName, variables);
+      // Gradients, images and unresolvable references can't be measured
+      if (!foreground || !backgroundColor) continue;
+
+      const background = blend(backgroundColor, page);
+      const ratio = contrastRatio(blend(foreground, background), background);
+      if (ratio >= required) continue;
+
+      const [category, ...keyPath] = pair.foreground.split('.');
+      const pointer =
+        category === 'colors' && darkKeys.includes(keyPath[0])
+          ? jsonPointer('dark', ...keyPath)
+          : jsonPointer(category, ...keyPath);
+      const message = `${prefix}${pair.label} contrast is ${ratio.toFixed(2)}:1 (${pair.foreground} on ${pair.background})`;
+
+      if (options.level) {
+        this.errors.push(
+          createError(
+            'insufficient_contrast',
+            `${message}, below the ${required}:1 required by WCAG ${options.level}`,
+            { path: options.path, pointer }
+          )
+        );
+      } else {
+        this.warnings.push(
+          createWarning('low_contrast', `${message}, below the ${required}:1 recommended by WCAG AA`, {
+            path: options.path,
+            pointer,
+            suggestion: 'Adjust the colors, or declare features.accessibility once they meet your target level',
+          })
+        );
+      }
+    }
+  }
+
+  /**
+   * Follow var() chains to a literal color
+   */
+  private resolveColor(name: string, variables: Map<string, string>): RgbaColor | null {
+    const seen = new Set<string>();
+    let value = variables.get(name);
+
+    while (value !== undefined) {
+      const reference = /^var\(\s*(--[A-Za-z0-9_-]+)\s*(?:,\s*(.+))?\)$/.exec(value.trim());
+      if (!reference) {
+        return parseColor(value);
+      }
+
+      const [, referenced, fallback] = reference;
+      if (seen.has(referenced)) {
+        return null;
+      }
+      seen.add(referenced);
+      value = variables.has(referenced) ? variables.get(referenced) : fallback;
+    }
+
+    return null;
+  }
+
+  /**
+   * Build validation result
+   */
+  private buildResult(): ValidationResult {
+    return {
+      isValid: this.errors.length === 0,
+      errors: this.errors,
+      warnings: this.warnings,
+    };
+  }
+}
@@ -3,18 +3,30 @@
  * Validates design token files (colors, typography, spacing, etc.)
  */
 
-import fs from 'fs-extra';
-import {
-  ValidationResult,
-  ValidationError,
-  ValidationWarning,
-  createError,
-  createWarning,
-} from '../types/validation-result.js';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { ManifestValidator } from './manifest-validator.js';
+import { ValidationResult, Fix, createError, createWarning } from '../types/validation-result.js';
 import { DesignTokens } from '../types/manifest.js';
+import { ValidatorConfig } from '../types/config.js';
+import { TokenResolver, ReferenceIssue } from '../compiler/token-resolver.js';
+import { checkColor } from '../utils/color.js';
+import { JsonParseError, jsonPointer } from '../utils/json-source-map.js';
+import { applyRuleConfig } from '../utils/rule-config.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// Error type reported for each kind of token reference problem
+const REFERENCE_ERROR_TYPES: Record<ReferenceIssue['kind'], string> = {
+  dangling: 'dangling_reference',
+  cycle: 'reference_cycle',
+  invalid_target: 'invalid_reference',
+  type_mismatch: 'reference_type_mismatch',
+};
 
 // Valid breakpoint names for responsive tokens
-const VALID_BREAKPOINTS = ['mobile', 'tablet', 'desktop', 'sm', 'md', 'lg', 'xl', '2xl'];
+export const VALID_BREAKPOINTS = ['mobile', 'tablet', 'desktop', 'sm', 'md', 'lg', 'xl', '2xl'];
 
 // Recommended tokens for each element category
 const ELEMENT_TOKEN_RECOMMENDATIONS: Record<string, string[]> = {
@@ -103,33 +115,61 @@ const ELEMENT_TOKEN_RECOMMENDATIONS: Record<string, string[]> = {
   gallery: ['gap', 'radius'],
 };
 
-export class DesignTokensValidator {
-  private errors: ValidationError[] = [];
-  private warnings: ValidationWarning[] = [];
+// Matches var() references that lack the --theme- prefix
+const UNPREFIXED_VAR = /var\(--(?!theme-)/g;
+
+export interface DesignTokensValidatorOptions {
+  /** Unsaved contents to validate instead of the file on disk */
+  content?: string;
+  /** Tokens to copy missing recommended tokens from when fixing (e.g., the starter theme's) */
+  starterTokens?: DesignTokens;
+  /** Rule severities and ignores (ignorePaths are relative to the tokens file's directory) */
+  config?: ValidatorConfig;
+}
+
+export class DesignTokensValidator extends ManifestValidator {
+  private starterTokens: DesignTokens | undefined;
+  private config: ValidatorConfig = {};
+  private tokensPath = '';
 
   /**
    * Validate a design tokens file
    */
-  async validate(tokensPath: string): Promise<ValidationResult> {
-    this.errors = [];
-    this.warnings = [];
+  async validate(tokensPath: string, options: DesignTokensValidatorOptions = {}): Promise<ValidationResult> {
+    this.reset();
+    const { content, starterTokens, config } = options;
+    this.overlay = new Map(content !== undefined ? [[path.resolve(tokensPath), content]] : []);
+    this.starterTokens = starterTokens;
+    this.config = config || {};
+    this.tokensPath = tokensPath;
 
     // Check file exists
     if (!(await this.fileExists(tokensPath))) {
-      this.errors.push(
+      this.addError(
         createError('file_not_found', `Design tokens file does not exist: ${tokensPath}`)
       );
       return this.buildResult();
     }
 
     // Load and parse JSON
-    const tokens = await this.loadTokens(tokensPath);
-    if (!tokens) {
+    const rawTokens = await this.loadTokens(tokensPath);
+    if (!rawTokens) {
       return this.buildResult();
     }
 
     // Validate token structure
-    this.validateTokenStructure(tokens, tokensPath);
+    if (!this.validateTokenStructure(rawTokens, tokensPath)) {
+      return this.buildResult();
+    }
+
+    // Check categories, nesting and value types against the tokens schema
+    const schema = await this.loadSchema(path.join(__dirname, '../../schemas/tokens_schema.json'));
+    if (!this.validateAgainstSchema(rawTokens, schema, 'design tokens', tokensPath)) {
+      return this.buildResult();
+    }
+
+    // Resolve {category.key} references so the checks below see literal values
+    const tokens = this.resolveReferences(rawTokens, tokensPath);
 
     // Validate colors
     if (tokens.colors) {
@@ -163,15 +203,22 @@ export class DesignTokensValidator {
   }
 
   /**
-   * Check file exists
+   * Resolve token references and report dangling, cyclic and mistyped ones
    */
-  private async fileExists(filePath: string): Promise<boolean> {
-    try {
-      const stats = await fs.stat(filePath);
-      return stats.isFile();
-    } catch {
-      return false;
+  private resolveReferences(tokens: DesignTokens, tokensPath: string): DesignTokens {
+    const resolver = new TokenResolver(tokens);
+    const resolved = resolver.resolveAll();
+
+    for (const issue of resolver.getIssues()) {
+      this.addError(
+        createError(REFERENCE_ERROR_TYPES[issue.kind], issue.message, {
+          path: tokensPath,
+          pointer: jsonPointer(...issue.tokenPath.split('.')),
+        })
+      );
     }
+
+    return resolved;
   }
 
   /**
@@ -179,17 +226,18 @@ export class DesignTokensValidator {
    */
   private async loadTokens(tokensPath: string): Promise<DesignTokens | null> {
     try {
-      const content = await fs.readFile(tokensPath, 'utf-8');
-      return JSON.parse(content);
+      return await this.readJSONSource<DesignTokens>(tokensPath);
     } catch (error) {
-      if (error instanceof SyntaxError) {
-        this.errors.push(
+      if (error instanceof JsonParseError) {
+        this.addError(
           createError('json_parse_error', `Invalid JSON in design tokens: ${error.message}`, {
             path: tokensPath,
+            line: error.line,
+            column: error.column,
           })
         );
       } else if (error instanceof Error) {
-        this.errors.push(
+        this.addError(
           createError('read_error', `Failed to read design tokens: ${error.message}`, {
             path: tokensPath,
           })
@@ -201,54 +249,66 @@ export class DesignTokensValidator {
 
   /**
    * Validate overall token structure
+   * @returns Whether the tokens are an object the remaining checks can walk
    */
-  private validateTokenStructure(tokens: DesignTokens, tokensPath: string): void {
-    if (typeof tokens !== 'object' || tokens === null) {
-      this.errors.push(
+  private validateTokenStructure(tokens: DesignTokens, tokensPath: string): boolean {
+    if (typeof tokens !== 'object' || tokens === null || Array.isArray(tokens)) {
+      this.addError(
         createError('invalid_structure', 'Design tokens must be an object', {
           path: tokensPath,
+          pointer: '',
         })
       );
-      return;
+      return false;
     }
 
     // Check that it's not empty
     if (Object.keys(tokens).length === 0) {
-      this.errors.push(
+      this.addError(
         createError('empty_tokens', 'Design tokens file is empty', {
           path: tokensPath,
+          pointer: '',
         })
       );
     }
+
+    return true;
   }
 
   /**
    * Validate color tokens
    */
   private validateColors(colors: Record<string, string>, tokensPath: string): void {
-    const hexPattern = /^#[0-9A-Fa-f]{6}$/;
-    const rgbaPattern = /^rgba?\(/;
-    const hslPattern = /^hsla?\(/;
-
     for (const [name, value] of Object.entries(colors)) {
-      if (typeof value !== 'string') {
-        this.errors.push(
-          createError('invalid_color', `Color "${name}" must be a string`, {
+      // Unresolved references are already reported as errors
+      if (TokenResolver.hasReference(value)) continue;
+
+      // var() references without --theme- get a fix instead of a color format warning
+      if (!this.checkThemePrefix(`Color "${name}"`, value, tokensPath, jsonPointer('colors', name))) continue;
+
+      // Check if it's a valid color format
+      const check = checkColor(value);
+      if (check.valid && /^#[0-9a-fA-F]{3,4}$/.test(value)) {
+        const expanded = '#' + [...value.slice(1)].map((digit) => digit + digit).join('').toLowerCase();
+        const edit = this.jsonReplaceEdit(tokensPath, jsonPointer('colors', name), value, expanded);
+        this.addWarning(
+          createWarning('short_hex_color', `Color "${name}" uses shorthand hex: ${value}`, {
             path: tokensPath,
+            pointer: jsonPointer('colors', name),
+            suggestion: `Use the full form ${expanded} so colors are written consistently`,
+            fix: edit ? { description: `Expand ${value} to ${expanded}`, edits: [edit] } : undefined,
           })
         );
-        continue;
-      }
-
-      // Check if it's a valid color format
-      if (!hexPattern.test(value) && !rgbaPattern.test(value) && !hslPattern.test(value)) {
-        this.warnings.push(
+      } else if (!check.valid) {
+        this.addWarning(
           createWarning(
             'color_format',
-            `Color "${name}" may not be in a valid format: ${value}`,
+            `Color "${name}" is not a valid CSS color: ${value} (${check.error})`,
             {
               path: tokensPath,
-              suggestion: 'Use hex (#RRGGBB), rgb(), rgba(), hsl(), or hsla() format',
+              pointer: jsonPointer('colors', name),
+              suggestion:
+                'Use hex, rgb(), hsl(), oklch(), oklab(), color-mix(), a named color or var(--theme-*)',
             }
           )
         );
@@ -260,13 +320,15 @@ export class DesignTokensValidator {
     const missingColors = recommendedColors.filter((color) => !(color in colors));
 
     if (missingColors.length > 0) {
-      this.warnings.push(
+      this.addWarning(
         createWarning(
           'missing_recommended',
           `Missing recommended color tokens: ${missingColors.join(', ')}`,
           {
             path: tokensPath,
+            pointer: '/colors',
             suggestion: 'Add these colors for better theme consistency',
+            fix: this.fillFromStarter(tokensPath, '/colors', missingColors, this.starterTokens?.colors),
           }
         )
       );
@@ -280,14 +342,7 @@ export class DesignTokensValidator {
     const validUnits = ['px', 'rem', 'em', '%', 'vh', 'vw'];
 
     for (const [name, value] of Object.entries(typography)) {
-      if (typeof value !== 'string') {
-        this.warnings.push(
-          createWarning('invalid_typography', `Typography "${name}" must be a string value`, {
-            path: tokensPath,
-          })
-        );
-        continue;
-      }
+      if (typeof value !== 'string') continue; // Reported by the schema
 
       // Font family values, keyword values (normal, bold, left, etc.), and
       // direction values (ltr, rtl) don't need unit validation
@@ -308,12 +363,13 @@ export class DesignTokensValidator {
       // Numeric-like values (font-weight, line-height) can be unitless
       if (name.startsWith('font-weight') || name.startsWith('line-height')) {
         if (value !== '0' && isNaN(Number(value)) && !validUnits.some((u) => value.endsWith(u))) {
-          this.warnings.push(
+          this.addWarning(
             createWarning(
               'invalid_typography_value',
               `Typography "${name}" has an unusual value: "${value}"`,
               {
                 path: tokensPath,
+                pointer: jsonPointer('typography', name),
                 suggestion: 'Expected a number or a value with units (px, rem, em)',
               }
             )
@@ -324,12 +380,13 @@ export class DesignTokensValidator {
 
       // Size/spacing-like values should have CSS units or be "0"
       if (value !== '0' && !validUnits.some((u) => value.endsWith(u))) {
-        this.warnings.push(
+        this.addWarning(
           createWarning(
             'invalid_typography_value',
             `Typography "${name}" has an unusual value: "${value}"`,
             {
               path: tokensPath,
+              pointer: jsonPointer('typography', name),
               suggestion: `Expected a value with units (${validUnits.join(', ')})`,
             }
           )
@@ -345,23 +402,23 @@ export class DesignTokensValidator {
     const validUnits = ['px', 'rem', 'em', '%', 'vh', 'vw'];
 
     for (const [name, value] of Object.entries(spacing)) {
-      if (typeof value !== 'string') {
-        this.errors.push(
-          createError('invalid_spacing', `Spacing "${name}" must be a string`, {
-            path: tokensPath,
-          })
-        );
-        continue;
-      }
+      // Unresolved references are already reported as errors
+      if (TokenResolver.hasReference(value)) continue;
 
       // Check if value has a valid unit
       const hasValidUnit = validUnits.some((unit) => value.endsWith(unit));
 
       if (!hasValidUnit && value !== '0') {
-        this.warnings.push(
+        // Bare numbers are taken as pixels
+        const edit = /^-?\d*\.?\d+$/.test(value)
+          ? this.jsonReplaceEdit(tokensPath, jsonPointer('spacing', name), value, `${value}px`)
+          : null;
+        this.addWarning(
           createWarning('spacing_unit', `Spacing "${name}" may be missing a unit: ${value}`, {
             path: tokensPath,
+            pointer: jsonPointer('spacing', name),
             suggestion: `Add a unit like px, rem, or em`,
+            fix: edit ? { description: `Change ${value} to ${value}px`, edits: [edit] } : undefined,
           })
         );
       }
@@ -389,13 +446,15 @@ export class DesignTokensValidator {
     const missingTokens = recommendedMenuTokens.filter((token) => !(token in menu));
 
     if (missingTokens.length > 0) {
-      this.warnings.push(
+      this.addWarning(
         createWarning(
           'incomplete_menu_tokens',
           `Missing recommended menu tokens: ${missingTokens.slice(0, 5).join(', ')}${missingTokens.length > 5 ? '...' : ''}`,
           {
             path: tokensPath,
+            pointer: '/menu',
             suggestion: 'Add these menu tokens for complete navigation styling',
+            fix: this.fillFromStarter(tokensPath, '/menu', missingTokens, this.starterTokens?.menu),
           }
         )
       );
@@ -421,12 +480,13 @@ export class DesignTokensValidator {
       const isKnownCategory = category in ELEMENT_TOKEN_RECOMMENDATIONS;
 
       if (!isKnownCategory) {
-        this.warnings.push(
+        this.addWarning(
           createWarning(
             'unknown_element_category',
             `Unknown element category: "${category}". This may be intentional for custom elements.`,
             {
               path: tokensPath,
+              pointer: jsonPointer('elements', category),
               suggestion: `Known categories: ${Object.keys(ELEMENT_TOKEN_RECOMMENDATIONS).join(', ')}`,
             }
           )
@@ -445,13 +505,20 @@ export class DesignTokensValidator {
 
         if (missing.length > 0 && missing.length < recommended.length) {
           // Only warn if they have some tokens but are missing others
-          this.warnings.push(
+          this.addWarning(
             createWarning(
               'incomplete_element_tokens',
               `Element "${category}" is missing some recommended tokens: ${missing.slice(0, 3).join(', ')}${missing.length > 3 ? '...' : ''}`,
               {
                 path: tokensPath,
+                pointer: jsonPointer('elements', category),
                 suggestion: 'Add these tokens for complete element styling',
+                fix: this.fillFromStarter(
+                  tokensPath,
+                  jsonPointer('elements', category),
+                  missing,
+                  this.starterTokens?.elements?.[category]
+                ),
               }
             )
           );
@@ -473,88 +540,39 @@ export class DesignTokensValidator {
     category: string,
     tokensPath: string
   ): void {
+    const pointer = jsonPointer(...category.split('.'), name);
+
     // Flat value (string) - check for --theme- prefix in var() references
     if (typeof value === 'string') {
-      // Check for var() references without --theme- prefix
-      if (value.includes('var(--') && !value.includes('var(--theme-')) {
-        this.warnings.push(
-          createWarning(
-            'missing_theme_prefix',
-            `${category} token "${name}" uses var() without --theme- prefix: ${value}`,
-            {
-              path: tokensPath,
-              suggestion: 'Use --theme- prefix for all theme variables (e.g., var(--theme-color-primary))',
-            }
-          )
-        );
-      }
+      this.checkThemePrefix(`${category} token "${name}"`, value, tokensPath, pointer);
       return;
     }
 
     // Responsive value (object with breakpoint keys)
     if (typeof value === 'object' && value !== null) {
-      const keys = Object.keys(value);
-
       // Must have at least one breakpoint
-      if (keys.length === 0) {
-        this.errors.push(
+      if (Object.keys(value).length === 0) {
+        this.addError(
           createError(
             'empty_responsive_token',
             `${category} token "${name}" is an empty object. Provide at least one breakpoint value.`,
-            { path: tokensPath }
+            { path: tokensPath, pointer }
           )
         );
         return;
       }
 
-      // Validate breakpoint names
-      for (const breakpoint of keys) {
-        if (!VALID_BREAKPOINTS.includes(breakpoint)) {
-          this.errors.push(
-            createError(
-              'invalid_breakpoint',
-              `${category} token "${name}" has invalid breakpoint "${breakpoint}". Valid breakpoints: ${VALID_BREAKPOINTS.join(', ')}`,
-              { path: tokensPath }
-            )
-          );
-        }
-
-        // Validate that breakpoint value is a string
-        const breakpointValue = value[breakpoint];
-        if (typeof breakpointValue !== 'string') {
-          this.errors.push(
-            createError(
-              'invalid_breakpoint_value',
-              `${category} token "${name}.${breakpoint}" must be a string, got ${typeof breakpointValue}`,
-              { path: tokensPath }
-            )
-          );
-        } else if (breakpointValue.includes('var(--') && !breakpointValue.includes('var(--theme-')) {
-          // Check for var() references without --theme- prefix in responsive values
-          this.warnings.push(
-            createWarning(
-              'missing_theme_prefix',
-              `${category} token "${name}.${breakpoint}" uses var() without --theme- prefix: ${breakpointValue}`,
-              {
-                path: tokensPath,
-                suggestion: 'Use --theme- prefix for all theme variables (e.g., var(--theme-color-primary))',
-              }
-            )
-          );
-        }
+      // Breakpoint names and value types are checked by the schema
+      for (const [breakpoint, breakpointValue] of Object.entries(value)) {
+        // Check for var() references without --theme- prefix in responsive values
+        this.checkThemePrefix(
+          `${category} token "${name}.${breakpoint}"`,
+          breakpointValue,
+          tokensPath,
+          pointer + jsonPointer(breakpoint)
+        );
       }
-
-      return;
     }
-
-    // Invalid type
-    this.errors.push(
-      createError(
-        'invalid_token_type',
-        `${category} token "${name}" must be a string or responsive object, got ${typeof value}`,
-        { path: tokensPath }
-      )
-    );
   }
 
   /**
@@ -565,13 +583,15 @@ export class DesignTokensValidator {
     const missing = recommended.filter((prop) => !(prop in tokens));
 
     if (missing.length > 0) {
-      this.warnings.push(
+      this.addWarning(
         createWarning(
           'missing_sections',
           `Missing recommended design token sections: ${missing.join(', ')}`,
           {
             path: tokensPath,
+            pointer: '',
             suggestion: 'Add these sections for a complete design system',
+            fix: this.fillFromStarter(tokensPath, '', missing, this.starterTokens),
           }
         )
       );
@@ -579,23 +599,82 @@ export class DesignTokensValidator {
 
     // Suggest adding breakpoints for responsive design
     if (!tokens.breakpoints) {
-      this.warnings.push(
+      this.addWarning(
         createWarning('missing_breakpoints', 'No breakpoints defined', {
           path: tokensPath,
+          pointer: '',
           suggestion: 'Add breakpoints for responsive design (mobile, tablet, desktop)',
+          fix: this.fillFromStarter(tokensPath, '', ['breakpoints'], this.starterTokens),
         })
       );
     }
   }
 
   /**
-   * Build validation result
+   * Warn about var() references without the --theme- prefix
+   * @param label - Token description for the message (e.g., 'menu token "link-color"')
+   * @returns Whether the value has none
+   */
+  private checkThemePrefix(label: string, value: string, tokensPath: string, pointer: string): boolean {
+    if (!value.includes('var(--') || value.includes('var(--theme-')) {
+      return true;
+    }
+
+    this.addWarning(
+      createWarning('missing_theme_prefix', `${label} uses var() without --theme- prefix: ${value}`, {
+        path: tokensPath,
+        pointer,
+        suggestion: 'Use --theme- prefix for all theme variables (e.g., var(--theme-color-primary))',
+        fix: this.themePrefixFix(tokensPath, pointer, value),
+      })
+    );
+    return false;
+  }
+
+  /**
+   * Fix adding the --theme- prefix to every var() reference in a token value
+   */
+  private themePrefixFix(tokensPath: string, pointer: string, value: string): Fix | undefined {
+    const fixed = value.replace(UNPREFIXED_VAR, 'var(--theme-');
+    const edit = this.jsonReplaceEdit(tokensPath, pointer, value, fixed);
+    return edit ? { description: `Change ${value} to ${fixed}`, edits: [edit] } : undefined;
+  }
+
+  /**
+   * Fix copying missing tokens from the starter tokens into the object at pointer
+   */
+  private fillFromStarter(
+    tokensPath: string,
+    pointer: string,
+    keys: string[],
+    starter: object | undefined
+  ): Fix | undefined {
+    if (!starter) {
+      return undefined;
+    }
+    const members = Object.fromEntries(
+      Object.entries(starter).filter(([key]) => keys.includes(key))
+    );
+    const edit = Object.keys(members).length > 0 ? this.jsonInsertEdit(tokensPath, pointer, members) : null;
+    return edit
+      ? { description: `Add ${Object.keys(members).join(', ')} from the starter theme`, edits: [edit] }
+      : undefined;
+  }
+
+  /**
+   * Build validation result, with the configured rule severities and ignores applied
    */
   private buildResult(): ValidationResult {
+    const { errors, warnings } = applyRuleConfig(
+      { errors: this.getErrors(), warnings: this.getWarnings() },
+      this.config,
+      path.dirname(this.tokensPath),
+      this.tokensPath
+    );
     return {
-      isValid: this.errors.length === 0,
-      errors: this.errors,
-      warnings: this.warnings,
+      isValid: errors.length === 0,
+      errors,
+      warnings,
     };
   }
 }
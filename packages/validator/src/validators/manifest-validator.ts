@@ -11,19 +11,38 @@ import {
   ValidationResult,
   ValidationError,
   ValidationWarning,
+  Fix,
+  TextEdit,
   createError,
 } from '../types/validation-result.js';
+import {
+  JsonLocation,
+  JsonParseError,
+  JsonSourceMap,
+  jsonPointer,
+  parseJsonWithPointers,
+  withJsonPosition,
+} from '../utils/json-source-map.js';
+import { getOffset } from '../utils/source-position.js';
+import { compareVersions } from '../utils/semver.js';
 
 export class ManifestValidator {
   private ajv: Ajv;
   private errors: ValidationError[] = [];
   private warnings: ValidationWarning[] = [];
+  private sources = new Map<string, { text: string; pointers: JsonSourceMap }>();
+  /** Loaded schemas by path, so Ajv compiles each once per validator */
+  private schemas = new Map<string, object>();
+  /** Unsaved file contents keyed by absolute path, read instead of the file on disk */
+  protected overlay: ReadonlyMap<string, string> = new Map();
 
   constructor() {
     this.ajv = new Ajv({
       allErrors: true,
       verbose: true,
       strict: false,
+      // Used by the theme manifest schema but not checked
+      formats: { uri: true, email: true },
     });
     addErrors(this.ajv);
   }
@@ -32,9 +51,14 @@ export class ManifestValidator {
    * Load a JSON schema from file
    */
   protected async loadSchema(schemaPath: string): Promise<any> {
+    if (this.schemas.has(schemaPath)) {
+      return this.schemas.get(schemaPath);
+    }
     try {
       const schemaContent = await fs.readFile(schemaPath, 'utf-8');
-      return JSON.parse(schemaContent);
+      const schema = JSON.parse(schemaContent);
+      this.schemas.set(schemaPath, schema);
+      return schema;
     } catch (error) {
       if (error instanceof Error) {
         throw new Error(`Failed to load schema from ${schemaPath}: ${error.message}`);
@@ -48,13 +72,14 @@ export class ManifestValidator {
    */
   protected async loadJSON<T = any>(filePath: string): Promise<T> {
     try {
-      const content = await fs.readFile(filePath, 'utf-8');
-      return JSON.parse(content);
+      return await this.readJSONSource<T>(filePath);
     } catch (error) {
-      if (error instanceof SyntaxError) {
+      if (error instanceof JsonParseError) {
         this.errors.push(
           createError('json_parse_error', `Invalid JSON in ${path.basename(filePath)}: ${error.message}`, {
             path: filePath,
+            line: error.line,
+            column: error.column,
           })
         );
       } else if (error instanceof Error) {
@@ -68,31 +93,167 @@ export class ManifestValidator {
     }
   }
 
+  /**
+   * Read and parse a JSON file, remembering where each value sits so diagnostics
+   * reported against the file with a pointer get a line and column
+   * @throws JsonParseError on invalid JSON
+   */
+  protected async readJSONSource<T = unknown>(filePath: string): Promise<T> {
+    const content = await this.readSource(filePath);
+    const { data, pointers } = parseJsonWithPointers<T>(content);
+    this.sources.set(filePath, { text: content, pointers });
+    return data;
+  }
+
+  /**
+   * Edit replacing the JSON value at a pointer, as long as the file still holds the expected value there
+   * (checks run on resolved tokens, which may differ from the source)
+   */
+  protected jsonReplaceEdit(filePath: string, pointer: string, expected: unknown, value: unknown): TextEdit | null {
+    const source = this.sources.get(filePath);
+    const location = source?.pointers.get(pointer);
+    if (!source || !location) {
+      return null;
+    }
+
+    const current = source.text.slice(getOffset(source.text, location.value), getOffset(source.text, location.valueEnd));
+    try {
+      if (JSON.stringify(JSON.parse(current)) !== JSON.stringify(expected)) {
+        return null;
+      }
+    } catch {
+      return null;
+    }
+
+    return { path: filePath, start: location.value, end: location.valueEnd, newText: JSON.stringify(value) };
+  }
+
+  /**
+   * Edit appending members to the JSON object at a pointer, indented like its existing members
+   */
+  protected jsonInsertEdit(filePath: string, pointer: string, members: Record<string, unknown>): TextEdit | null {
+    const source = this.sources.get(filePath);
+    const location = source?.pointers.get(pointer);
+    if (!source || !location || source.text[getOffset(source.text, location.value)] !== '{') {
+      return null;
+    }
+
+    // Members are recorded in source order, so the last direct child is the last member
+    let last: JsonLocation | undefined;
+    for (const [memberPointer, memberLocation] of source.pointers) {
+      const rest = memberPointer.slice(pointer.length + 1);
+      if (memberPointer.startsWith(pointer + '/') && !rest.includes('/')) {
+        last = memberLocation;
+      }
+    }
+
+    const format = (indent: string) =>
+      Object.entries(members).map(
+        ([key, value]) => `${indent}${JSON.stringify(key)}: ${JSON.stringify(value, null, 2).replace(/\n/g, '\n' + indent)}`
+      );
+
+    if (!last?.key) {
+      // Empty object: rewrite it with one member per line
+      const indent = ' '.repeat(location.key ? location.key.column - 1 : 0);
+      return {
+        path: filePath,
+        start: location.value,
+        end: location.valueEnd,
+        newText: `{\n${format(indent + '  ').join(',\n')}\n${indent}}`,
+      };
+    }
+
+    const indent = ' '.repeat(last.key.column - 1);
+    return {
+      path: filePath,
+      start: last.valueEnd,
+      end: last.valueEnd,
+      newText: format(indent)
+        .map((line) => `,\n${line}`)
+        .join(''),
+    };
+  }
+
+  /**
+   * Edit reordering the items of the JSON array at a pointer, keeping each item's formatting
+   * @param order - Current item indexes in their new order
+   */
+  protected jsonReorderEdit(filePath: string, pointer: string, order: number[]): TextEdit | null {
+    const source = this.sources.get(filePath);
+    const items = order.map((_, index) => source?.pointers.get(`${pointer}/${index}`));
+    if (!source || items.length === 0 || items.some((item) => !item)) {
+      return null;
+    }
+
+    const locations = items as JsonLocation[];
+    const ranges = locations.map((item) => ({
+      start: getOffset(source.text, item.value),
+      end: getOffset(source.text, item.valueEnd),
+    }));
+    // Items move between the existing slots, so the separators (commas, whitespace) stay put
+    let newText = '';
+    for (const [slot, index] of order.entries()) {
+      if (slot > 0) {
+        newText += source.text.slice(ranges[slot - 1].end, ranges[slot].start);
+      }
+      newText += source.text.slice(ranges[index].start, ranges[index].end);
+    }
+
+    return {
+      path: filePath,
+      start: locations[0].value,
+      end: locations[locations.length - 1].valueEnd,
+      newText,
+    };
+  }
+
+  /**
+   * Read a text file, preferring its overlay contents
+   */
+  protected async readSource(filePath: string): Promise<string> {
+    const content = this.overlay.get(path.resolve(filePath));
+    return content !== undefined ? content : fs.readFile(filePath, 'utf-8');
+  }
+
   /**
    * Validate manifest against schema
+   * @param filePath - When given, errors are reported against this file and prefixed with manifestType
    */
   protected validateAgainstSchema(
     manifest: any,
     schema: any,
-    manifestType: string = 'manifest'
+    manifestType: string = 'manifest',
+    filePath?: string
   ): boolean {
     const validate = this.ajv.compile(schema);
     const valid = validate(manifest);
 
     if (!valid && validate.errors) {
       for (const error of validate.errors) {
-        this.errors.push(this.convertAjvError(error, manifestType));
+        // The offending name is already reported by the nested error
+        if (error.keyword === 'propertyNames') continue;
+        this.errors.push(this.convertAjvError(error, manifestType, filePath));
       }
     }
 
     return valid;
   }
 
+  /**
+   * Fix for a schema error in filePath, for validators that know how to repair one
+   */
+  protected getSchemaFix?(error: ErrorObject, filePath: string): Fix | undefined;
+
   /**
    * Convert Ajv error to ValidationError
    */
-  private convertAjvError(error: ErrorObject, manifestType: string): ValidationError {
+  private convertAjvError(
+    error: ErrorObject,
+    manifestType: string,
+    filePath?: string
+  ): ValidationError {
     const dataPath = error.instancePath || error.schemaPath;
+    let pointer = error.instancePath;
     let message = error.message || 'Validation error';
 
     // Make error message more readable
@@ -101,15 +262,40 @@ export class ManifestValidator {
       message = `Missing required property: ${missingProp}`;
     } else if (error.keyword === 'pattern') {
       message = `${dataPath} ${message}`;
+    } else if (error.propertyName !== undefined) {
+      // Failing propertyNames check: point at the key itself
+      message = `${error.instancePath || '/'} has invalid key "${error.propertyName}"`;
+      if (error.keyword === 'enum') {
+        message += ` (must be one of: ${error.params.allowedValues.join(', ')})`;
+      }
+      pointer += jsonPointer(error.propertyName);
+    } else if (error.keyword === 'type') {
+      const types = String(error.params.type).split(',');
+      message = `${dataPath}: must be ${types.join(' or ')}`;
     } else if (error.keyword === 'enum') {
       const allowedValues = (error.params as any).allowedValues;
       message = `${dataPath} must be one of: ${allowedValues.join(', ')}`;
+    } else if (error.keyword === 'additionalProperties') {
+      const extraProp = error.params.additionalProperty;
+      message = `${error.instancePath || '/'} has unknown property "${extraProp}"`;
+      pointer += jsonPointer(extraProp);
     } else if (dataPath) {
       message = `${dataPath}: ${message}`;
     }
 
+    if (filePath) {
+      return this.withPosition(
+        createError('schema_validation', `${manifestType}: ${message}`, {
+          path: filePath,
+          pointer,
+          fix: this.getSchemaFix?.(error, filePath),
+        })
+      );
+    }
+
     return createError('schema_validation', message, {
       path: dataPath,
+      pointer,
     });
   }
 
@@ -119,6 +305,7 @@ export class ManifestValidator {
   protected reset(): void {
     this.errors = [];
     this.warnings = [];
+    this.sources.clear();
   }
 
   /**
@@ -139,20 +326,30 @@ export class ManifestValidator {
    * Add an error
    */
   protected addError(error: ValidationError): void {
-    this.errors.push(error);
+    this.errors.push(this.withPosition(error));
   }
 
   /**
    * Add a warning
    */
   protected addWarning(warning: ValidationWarning): void {
-    this.warnings.push(warning);
+    this.warnings.push(this.withPosition(warning));
+  }
+
+  /**
+   * Fill in line/column from the source map of the file a diagnostic points into
+   */
+  protected withPosition<T extends ValidationError | ValidationWarning>(item: T): T {
+    return item.path ? withJsonPosition(item, this.sources.get(item.path)?.pointers) : item;
   }
 
   /**
    * Check if file exists
    */
   protected async fileExists(filePath: string): Promise<boolean> {
+    if (this.overlay.has(path.resolve(filePath))) {
+      return true;
+    }
     try {
       const stats = await fs.stat(filePath);
       return stats.isFile();
@@ -174,22 +371,11 @@ export class ManifestValidator {
   }
 
   /**
-   * Compare semantic versions
+   * Compare semantic versions by semver precedence (pre-releases sort before their release)
    * @returns -1 if v1 < v2, 0 if equal, 1 if v1 > v2
    */
   protected compareVersions(v1: string, v2: string): number {
-    const parts1 = v1.split('.').map(Number);
-    const parts2 = v2.split('.').map(Number);
-
-    for (let i = 0; i < Math.max(parts1.length, parts2.length); i++) {
-      const p1 = parts1[i] || 0;
-      const p2 = parts2[i] || 0;
-
-      if (p1 < p2) return -1;
-      if (p1 > p2) return 1;
-    }
-
-    return 0;
+    return compareVersions(v1, v2);
   }
 
   /**
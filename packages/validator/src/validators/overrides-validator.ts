@@ -0,0 +1,122 @@
+/**
+ * Overrides Validator
+ * Lints overrides.css against the theme's token namespace
+ */
+
+import path from 'path';
+import { fileURLToPath } from 'url';
+import fs from 'fs-extra';
+import {
+  ValidationResult,
+  ValidationError,
+  ValidationWarning,
+  createWarning,
+} from '../types/validation-result.js';
+import { DesignTokens } from '../types/manifest.js';
+import { TokenCompiler } from '../compiler/token-compiler.js';
+import { findVariableDefinitions, findVariableReferences } from '../utils/css-parser.js';
+import { findClosestMatch } from '../utils/string-distance.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+/** Bundled copy of the platform stylesheet (docs/platform-components.css) */
+export const PLATFORM_CSS_PATH = path.join(__dirname, '../../assets/platform-components.css');
+
+let platformVariables: Promise<Set<string>> | null = null;
+
+/**
+ * Variables the platform defines or consumes in its component stylesheet
+ */
+function loadPlatformVariables(): Promise<Set<string>> {
+  if (!platformVariables) {
+    platformVariables = fs
+      .readFile(PLATFORM_CSS_PATH, 'utf-8')
+      .then((css) => {
+        const names = findVariableDefinitions(css);
+        for (const reference of findVariableReferences(css, '--theme-')) {
+          names.add(reference.name);
+        }
+        return names;
+      })
+      .catch(() => new Set<string>());
+  }
+  return platformVariables;
+}
+
+export class OverridesValidator {
+  private errors: ValidationError[] = [];
+  private warnings: ValidationWarning[] = [];
+
+  /**
+   * Validate an overrides.css file
+   * @param overridesPath - Path to overrides.css
+   * @param tokens - Parsed tokens.json, used to resolve var(--theme-*) references
+   * @param content - Unsaved contents to validate instead of the file on disk
+   */
+  async validate(
+    overridesPath: string,
+    tokens: DesignTokens | null,
+    content?: string
+  ): Promise<ValidationResult> {
+    this.errors = [];
+    this.warnings = [];
+
+    const css = content !== undefined ? content : await fs.readFile(overridesPath, 'utf-8');
+
+    // Without tokens every reference would look unknown
+    if (tokens) {
+      await this.validateVariableReferences(css, tokens, overridesPath);
+    }
+
+    return this.buildResult();
+  }
+
+  /**
+   * Report var(--theme-*) references that no token, platform style or local declaration defines
+   */
+  private async validateVariableReferences(
+    css: string,
+    tokens: DesignTokens,
+    overridesPath: string
+  ): Promise<void> {
+    const known = new Set(await loadPlatformVariables());
+    for (const variable of new TokenCompiler().collectVariables(tokens)) {
+      known.add(variable.name);
+    }
+    for (const name of findVariableDefinitions(css)) {
+      known.add(name);
+    }
+
+    for (const reference of findVariableReferences(css, '--theme-')) {
+      if (known.has(reference.name)) continue;
+
+      const closest = findClosestMatch(reference.name, known);
+      this.warnings.push(
+        createWarning(
+          'unknown_css_variable',
+          `References undefined variable ${reference.name}`,
+          {
+            path: overridesPath,
+            line: reference.line,
+            column: reference.column,
+            suggestion: closest
+              ? `Did you mean ${closest}?`
+              : 'Define this token in tokens.json or check the variable name',
+          }
+        )
+      );
+    }
+  }
+
+  /**
+   * Build validation result
+   */
+  private buildResult(): ValidationResult {
+    return {
+      isValid: this.errors.length === 0,
+      errors: this.errors,
+      warnings: this.warnings,
+    };
+  }
+}
@@ -0,0 +1,293 @@
+/**
+ * Package Validator
+ * Validates theme ZIP packages built by `spwig package`: archive safety, checksums
+ * and package metadata, then the theme inside
+ */
+
+import crypto from 'crypto';
+import os from 'os';
+import path from 'path';
+import fs from 'fs-extra';
+import { ManifestValidator } from './manifest-validator.js';
+import { ThemeValidator } from './theme-validator.js';
+import {
+  ValidationResult,
+  ValidationError,
+  ValidationWarning,
+  createError,
+  createWarning,
+} from '../types/validation-result.js';
+import { ThemeManifest } from '../types/manifest.js';
+import { ZipEntry, ZipFormatError, readZipEntries } from '../utils/zip-reader.js';
+import { contentChecksum, isExcludedFromPackage } from '../utils/package-format.js';
+
+export class PackageValidator extends ManifestValidator {
+  private zipPath = '';
+  private extractDir = '';
+
+  /**
+   * Validate a theme package. Issues inside the archive are reported with paths
+   * under the archive path (e.g. theme-1.0.0.zip/tokens.json).
+   */
+  async validate(zipPath: string): Promise<ValidationResult> {
+    this.reset();
+    this.zipPath = path.resolve(zipPath);
+    this.extractDir = '';
+
+    if (!(await this.fileExists(this.zipPath))) {
+      this.addError(createError('file_not_found', `Package does not exist: ${zipPath}`));
+      return this.buildResult();
+    }
+
+    const buffer = await fs.readFile(this.zipPath);
+    await this.verifyChecksumFile(buffer);
+
+    let entries: ZipEntry[];
+    try {
+      entries = readZipEntries(buffer);
+    } catch (error) {
+      if (error instanceof ZipFormatError) {
+        this.addError(createError('invalid_archive', `Invalid ZIP archive: ${error.message}`, { path: this.zipPath }));
+        return this.buildResult();
+      }
+      throw error;
+    }
+
+    const files = this.checkEntries(entries);
+    this.checkRoot(files);
+
+    this.extractDir = await fs.mkdtemp(path.join(os.tmpdir(), 'spwig-package-'));
+    try {
+      if (!(await this.extract(files))) {
+        return this.buildResult();
+      }
+
+      // Package contents are third-party code, so rule plugins are never loaded
+      const themeResult = await new ThemeValidator(this.extractDir, { loadPlugins: false }).validate();
+      themeResult.errors.forEach((error) => this.addError(error));
+      themeResult.warnings.forEach((warning) => this.addWarning(warning));
+
+      if (themeResult.themeInfo) {
+        await this.verifyMetadata(themeResult.themeInfo, files);
+      }
+      return { ...this.buildResult(), themeInfo: themeResult.themeInfo };
+    } finally {
+      await fs.remove(this.extractDir);
+    }
+  }
+
+  /**
+   * Compare the archive against the "<hash>  <name>" line in its .sha256 sidecar
+   */
+  private async verifyChecksumFile(buffer: Buffer): Promise<void> {
+    const checksumPath = `${this.zipPath}.sha256`;
+    const archiveName = path.basename(this.zipPath);
+
+    if (!(await this.fileExists(checksumPath))) {
+      this.addWarning(
+        createWarning('missing_checksum_file', `No checksum file found: ${archiveName}.sha256`, {
+          path: this.zipPath,
+          suggestion: 'Distribute packages with the .sha256 file created by spwig package',
+        })
+      );
+      return;
+    }
+
+    const match = /^([0-9a-f]{64})\s+\*?(.+)$/i.exec((await fs.readFile(checksumPath, 'utf-8')).trim());
+    if (!match) {
+      this.addError(
+        createError('invalid_checksum_file', `${archiveName}.sha256 is not in "<sha256>  <file name>" format`, {
+          path: checksumPath,
+          line: 1,
+        })
+      );
+      return;
+    }
+
+    const actual = crypto.createHash('sha256').update(buffer).digest('hex');
+    if (match[1].toLowerCase() !== actual) {
+      this.addError(
+        createError('checksum_mismatch', `${archiveName} does not match its .sha256 checksum`, {
+          path: checksumPath,
+          line: 1,
+          suggestion: 'The archive was modified or corrupted after packaging',
+        })
+      );
+    }
+    if (match[2] !== archiveName) {
+      this.addWarning(
+        createWarning('checksum_file_name', `${archiveName}.sha256 names a different file: ${match[2]}`, {
+          path: checksumPath,
+          line: 1,
+        })
+      );
+    }
+  }
+
+  /**
+   * Flag entries that are unsafe to extract or shouldn't be packaged
+   * @returns File entries that are safe to extract
+   */
+  private checkEntries(entries: ZipEntry[]): ZipEntry[] {
+    const files: ZipEntry[] = [];
+
+    for (const entry of entries) {
+      const location = { path: path.join(this.zipPath, entry.name) };
+
+      if (isUnsafePath(entry.name)) {
+        this.addError(
+          createError('unsafe_path', `Archive entry escapes the package root: ${entry.name}`, {
+            path: this.zipPath,
+            suggestion: 'Entries must use relative paths without ".." segments',
+          })
+        );
+        continue;
+      }
+      if (entry.isSymlink) {
+        this.addError(createError('symlink_entry', `Archive contains a symbolic link: ${entry.name}`, location));
+        continue;
+      }
+      if (entry.encrypted) {
+        this.addError(createError('encrypted_entry', `Archive entry is encrypted: ${entry.name}`, location));
+        continue;
+      }
+
+      const excluded = entry.name.split('/').find((segment) => segment && isExcludedFromPackage(segment));
+      if (excluded) {
+        this.addError(
+          createError('excluded_file', `Package contains "${excluded}", which spwig package leaves out: ${entry.name}`, {
+            ...location,
+            suggestion: 'Rebuild the package with spwig package',
+          })
+        );
+      }
+
+      if (!entry.isDirectory) {
+        files.push(entry);
+      }
+    }
+
+    return files;
+  }
+
+  /**
+   * Theme files must sit at the archive root, not inside a single top-level folder
+   */
+  private checkRoot(files: ZipEntry[]): void {
+    if (files.length === 0 || files.some((file) => file.name === 'manifest.json')) {
+      return;
+    }
+
+    const roots = new Set(files.map((file) => file.name.split('/')[0]));
+    const [root] = roots;
+    if (roots.size === 1 && files.some((file) => file.name === `${root}/manifest.json`)) {
+      this.addError(
+        createError('nested_root', `Package contents are inside a "${root}/" folder instead of the archive root`, {
+          path: this.zipPath,
+          suggestion: 'Zip the contents of the theme folder, or use spwig package',
+        })
+      );
+    }
+  }
+
+  /**
+   * Extract file entries into the temporary directory
+   * @returns Whether every entry could be read
+   */
+  private async extract(files: ZipEntry[]): Promise<boolean> {
+    for (const file of files) {
+      let data: Buffer;
+      try {
+        data = file.read();
+      } catch (error) {
+        this.addError(
+          createError('invalid_archive', `Invalid ZIP archive: ${error instanceof Error ? error.message : error}`, {
+            path: this.zipPath,
+          })
+        );
+        return false;
+      }
+      await fs.outputFile(path.join(this.extractDir, file.name), data);
+    }
+    return true;
+  }
+
+  /**
+   * Check the file_count, total_size_bytes and checksum fields spwig package adds to manifest.json
+   */
+  private async verifyMetadata(manifest: ThemeManifest, files: ZipEntry[]): Promise<void> {
+    const manifestPath = path.join(this.extractDir, 'manifest.json');
+    // Parsed here too, so mismatches get a line and column
+    await this.readJSONSource(manifestPath).catch(() => undefined);
+
+    if (manifest.file_count === undefined && manifest.total_size_bytes === undefined && !manifest.checksum) {
+      this.addWarning(
+        createWarning('missing_package_metadata', 'manifest.json has no file_count, total_size_bytes or checksum', {
+          path: manifestPath,
+          pointer: '',
+          suggestion: 'Build packages with spwig package, which records them',
+        })
+      );
+      return;
+    }
+
+    const totalSize = files.reduce((sum, file) => sum + file.size, 0);
+    const mismatch = (field: string, recorded: unknown, actual: unknown) =>
+      this.addError(
+        createError('metadata_mismatch', `manifest.json ${field} is ${recorded} but the package has ${actual}`, {
+          path: manifestPath,
+          pointer: `/${field}`,
+          suggestion: 'The package contents changed after packaging',
+        })
+      );
+
+    if (manifest.file_count !== undefined && manifest.file_count !== files.length) {
+      mismatch('file_count', manifest.file_count, files.length);
+    }
+    if (manifest.total_size_bytes !== undefined && manifest.total_size_bytes !== totalSize) {
+      mismatch('total_size_bytes', manifest.total_size_bytes, totalSize);
+    }
+    if (manifest.checksum) {
+      const hashes = new Map(
+        await Promise.all(
+          files.map(async (file): Promise<[string, string]> => [
+            file.name,
+            crypto.createHash('sha256').update(await fs.readFile(path.join(this.extractDir, file.name))).digest('hex'),
+          ])
+        )
+      );
+      const actual = contentChecksum(hashes);
+      if (manifest.checksum !== actual) {
+        mismatch('checksum', manifest.checksum, actual);
+      }
+    }
+  }
+
+  /**
+   * Build validation result, reporting extracted files under the archive path
+   */
+  private buildResult(): ValidationResult {
+    const errors = this.getErrors().map((error) => this.toArchivePath(error));
+    const warnings = this.getWarnings().map((warning) => this.toArchivePath(warning));
+    return { isValid: errors.length === 0, errors, warnings };
+  }
+
+  private toArchivePath<T extends ValidationError | ValidationWarning>(item: T): T {
+    if (!this.extractDir || !item.path || !item.path.startsWith(this.extractDir + path.sep)) {
+      return item;
+    }
+    return { ...item, path: path.join(this.zipPath, path.relative(this.extractDir, item.path)) };
+  }
+}
+
+/**
+ * Absolute paths, drive letters, backslashes and ".." segments could write outside the extraction folder
+ */
+function isUnsafePath(name: string): boolean {
+  return (
+    name.startsWith('/') ||
+    name.includes('\\') ||
+    /^[a-zA-Z]:/.test(name) ||
+    name.split('/').some((segment) => segment === '..')
+  );
+}
@@ -0,0 +1,291 @@
+/**
+ * RTL Validator
+ * Lints overrides.css for physical (left/right) styling that doesn't mirror in right-to-left locales
+ */
+
+import {
+  ValidationResult,
+  ValidationWarning,
+  Fix,
+  createWarning,
+} from '../types/validation-result.js';
+import { CssDeclaration, findDeclarations } from '../utils/css-parser.js';
+import { PositionLookup, createPositionLookup } from '../utils/source-position.js';
+
+// Physical properties and their logical equivalents
+const LOGICAL_PROPERTIES: Record<string, string> = {
+  'margin-left': 'margin-inline-start',
+  'margin-right': 'margin-inline-end',
+  'padding-left': 'padding-inline-start',
+  'padding-right': 'padding-inline-end',
+  'border-left': 'border-inline-start',
+  'border-right': 'border-inline-end',
+  'border-left-width': 'border-inline-start-width',
+  'border-right-width': 'border-inline-end-width',
+  'border-left-style': 'border-inline-start-style',
+  'border-right-style': 'border-inline-end-style',
+  'border-left-color': 'border-inline-start-color',
+  'border-right-color': 'border-inline-end-color',
+  'border-top-left-radius': 'border-start-start-radius',
+  'border-top-right-radius': 'border-start-end-radius',
+  'border-bottom-left-radius': 'border-end-start-radius',
+  'border-bottom-right-radius': 'border-end-end-radius',
+  left: 'inset-inline-start',
+  right: 'inset-inline-end',
+};
+
+// Physical keyword values and their logical equivalents, by property
+const LOGICAL_VALUES: Record<string, Record<string, string>> = {
+  'text-align': { left: 'start', right: 'end' },
+  float: { left: 'inline-start', right: 'inline-end' },
+  clear: { left: 'inline-start', right: 'inline-end' },
+};
+
+// Rules already scoped to a direction mirror on purpose
+const DIRECTION_SCOPED = /\[\s*dir\s*=\s*["']?(rtl|ltr)["']?\s*\]|:dir\(\s*(rtl|ltr)\s*\)/i;
+
+const IMPORTANT = /\s*!important$/i;
+
+export class RtlValidator {
+  private warnings: ValidationWarning[] = [];
+
+  /**
+   * Check overrides.css for physical properties, values, transforms and background positions
+   * @param css - Stylesheet contents
+   * @param overridesPath - Path reported with each result and edited by fixes
+   */
+  validate(css: string, overridesPath: string): ValidationResult {
+    this.warnings = [];
+    const getPosition = createPositionLookup(css);
+
+    for (const declaration of findDeclarations(css)) {
+      if (declaration.context.some((prelude) => DIRECTION_SCOPED.test(prelude))) {
+        continue;
+      }
+
+      if (Object.prototype.hasOwnProperty.call(LOGICAL_PROPERTIES, declaration.property)) {
+        this.checkPhysicalProperty(getPosition, declaration, overridesPath);
+      } else if (Object.prototype.hasOwnProperty.call(LOGICAL_VALUES, declaration.property)) {
+        this.checkPhysicalValue(getPosition, declaration, overridesPath);
+      } else if (declaration.property === 'margin' || declaration.property === 'padding') {
+        this.checkAsymmetricShorthand(getPosition, declaration, overridesPath);
+      } else if (declaration.property === 'transform' || declaration.property === 'translate') {
+        this.checkTransform(declaration, overridesPath);
+      } else if (
+        declaration.property === 'background-position' ||
+        declaration.property === 'background-position-x'
+      ) {
+        this.checkBackgroundPosition(declaration, overridesPath);
+      }
+    }
+
+    return {
+      isValid: true,
+      errors: [],
+      warnings: this.warnings,
+    };
+  }
+
+  private checkPhysicalProperty(
+    getPosition: PositionLookup,
+    declaration: CssDeclaration,
+    overridesPath: string
+  ): void {
+    const logical = LOGICAL_PROPERTIES[declaration.property];
+    this.report(
+      'physical_property',
+      `${declaration.property} doesn't flip for right-to-left languages`,
+      declaration,
+      overridesPath,
+      {
+        suggestion: `Use ${logical}`,
+        fix: this.fix(
+          getPosition,
+          overridesPath,
+          `Use ${logical}`,
+          declaration.offset,
+          declaration.offset + declaration.property.length,
+          logical
+        ),
+      }
+    );
+  }
+
+  private checkPhysicalValue(
+    getPosition: PositionLookup,
+    declaration: CssDeclaration,
+    overridesPath: string
+  ): void {
+    const match = /^(left|right)\b/i.exec(declaration.value);
+    if (!match) {
+      return;
+    }
+
+    const logical = LOGICAL_VALUES[declaration.property][match[1].toLowerCase()];
+    this.report(
+      'physical_value',
+      `${declaration.property}: ${match[1]} doesn't flip for right-to-left languages`,
+      declaration,
+      overridesPath,
+      {
+        suggestion: `Use ${declaration.property}: ${logical}`,
+        fix: this.fix(
+          getPosition,
+          overridesPath,
+          `Use ${declaration.property}: ${logical}`,
+          declaration.valueOffset,
+          declaration.valueOffset + match[1].length,
+          logical
+        ),
+      }
+    );
+  }
+
+  /**
+   * margin/padding with four values and different left and right sides
+   */
+  private checkAsymmetricShorthand(
+    getPosition: PositionLookup,
+    declaration: CssDeclaration,
+    overridesPath: string
+  ): void {
+    const important = IMPORTANT.exec(declaration.value)?.[0] || '';
+    const values = splitValues(
+      declaration.value.slice(0, declaration.value.length - important.length)
+    );
+    if (values.length !== 4 || values[1] === values[3]) {
+      return;
+    }
+
+    const [top, right, bottom, left] = values;
+    const { property } = declaration;
+    const block = top === bottom ? top : `${top} ${bottom}`;
+    const replacement = `${property}-block: ${block}${important}; ${property}-inline: ${left} ${right}${important}`;
+    this.report(
+      'physical_property',
+      `${property}: ${declaration.value} has different left and right sides, which don't flip for right-to-left languages`,
+      declaration,
+      overridesPath,
+      {
+        suggestion: `Use ${replacement}`,
+        fix: this.fix(
+          getPosition,
+          overridesPath,
+          `Use ${property}-block and ${property}-inline`,
+          declaration.offset,
+          declaration.valueEnd,
+          replacement
+        ),
+      }
+    );
+  }
+
+  /**
+   * Horizontal translations move the wrong way in right-to-left layouts; there is no logical equivalent
+   */
+  private checkTransform(declaration: CssDeclaration, overridesPath: string): void {
+    let horizontal: string | undefined;
+    if (declaration.property === 'translate') {
+      horizontal = splitValues(declaration.value.replace(IMPORTANT, ''))[0];
+    } else {
+      const match = /\btranslate(?:X|3d)?\(\s*([^,)]+)/i.exec(declaration.value);
+      horizontal = match?.[1].trim();
+    }
+    if (!horizontal || isZero(horizontal)) {
+      return;
+    }
+
+    this.report(
+      'directional_transform',
+      `${declaration.property} moves elements ${horizontal} horizontally, in the same direction for right-to-left languages`,
+      declaration,
+      overridesPath,
+      { suggestion: 'Add a [dir="rtl"] rule with the opposite horizontal offset' }
+    );
+  }
+
+  private checkBackgroundPosition(declaration: CssDeclaration, overridesPath: string): void {
+    const match = /\b(left|right)\b/i.exec(declaration.value);
+    if (!match) {
+      return;
+    }
+
+    this.report(
+      'directional_background_position',
+      `${declaration.property} anchors the background to the ${match[1].toLowerCase()}, which doesn't flip for right-to-left languages`,
+      declaration,
+      overridesPath,
+      {
+        suggestion: `Add a [dir="rtl"] rule positioning it from the ${match[1].toLowerCase() === 'left' ? 'right' : 'left'}`,
+      }
+    );
+  }
+
+  private report(
+    type: string,
+    message: string,
+    declaration: CssDeclaration,
+    overridesPath: string,
+    options: { suggestion: string; fix?: Fix }
+  ): void {
+    this.warnings.push(
+      createWarning(type, message, {
+        path: overridesPath,
+        line: declaration.line,
+        column: declaration.column,
+        ...options,
+      })
+    );
+  }
+
+  /**
+   * Fix replacing the text between two offsets
+   */
+  private fix(
+    getPosition: PositionLookup,
+    overridesPath: string,
+    description: string,
+    start: number,
+    end: number,
+    newText: string
+  ): Fix {
+    return {
+      description,
+      edits: [
+        {
+          path: overridesPath,
+          start: getPosition(start),
+          end: getPosition(end),
+          newText,
+        },
+      ],
+    };
+  }
+}
+
+/**
+ * Split a value on top-level whitespace, keeping functions such as calc(1px + 2px) whole
+ */
+function splitValues(value: string): string[] {
+  const values: string[] = [];
+  let current = '';
+  let depth = 0;
+
+  for (const char of value.trim()) {
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    if (/\s/.test(char) && depth === 0) {
+      if (current) values.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (current) values.push(current);
+
+  return values;
+}
+
+function isZero(value: string): boolean {
+  return /^[-+]?0*\.?0+([a-z]+|%)?$/i.test(value);
+}
@@ -6,25 +6,117 @@
 import path from 'path';
 import { fileURLToPath } from 'url';
 import fs from 'fs-extra';
+import type { ErrorObject } from 'ajv';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 import { ManifestValidator } from './manifest-validator.js';
 import { DesignTokensValidator } from './design-tokens-validator.js';
+import { OverridesValidator } from './overrides-validator.js';
+import { RtlValidator } from './rtl-validator.js';
+import { ContrastValidator, parseAccessibilityLevel } from './contrast-validator.js';
 import {
   ValidationResult,
+  Fix,
+  TextEdit,
   createError,
   createWarning,
 } from '../types/validation-result.js';
-import { ThemeManifest } from '../types/manifest.js';
+import { ThemeManifest, DesignTokens, LayoutPreset, WidgetPlacement } from '../types/manifest.js';
+import { ValidatorConfig } from '../types/config.js';
+import { PresetFile, RuleContext, RuleIssue, ValidationRule } from '../types/rule.js';
+import { JsonParseError, jsonPointer } from '../utils/json-source-map.js';
+import { CONFIG_FILE_NAME, applyRuleConfig, getThresholds } from '../utils/rule-config.js';
+import { loadRulePlugin } from '../utils/rule-plugins.js';
+import {
+  IMAGE_EXTENSIONS,
+  ImageFileInfo,
+  ThemeImages,
+  formatName,
+  readImageInfo,
+} from '../utils/image-info.js';
+import {
+  describePlatformFeature,
+  findPlatformFeatures,
+  loadPlatformCapabilities,
+} from '../utils/platform-capabilities.js';
+import { parseSemver, satisfies } from '../utils/semver.js';
+import { findClosestMatch } from '../utils/string-distance.js';
+import { TokenCompiler } from '../compiler/token-compiler.js';
+
+// Directories left out of the file list given to custom rules
+const IGNORED_DIRECTORIES = new Set(['node_modules', '.git', 'dist', 'build']);
+
+// Marketplace image requirements: a 3:4 preview of at least 600x800, screenshots from 720p to 4K
+const PREVIEW_MIN_WIDTH = 600;
+const PREVIEW_MIN_HEIGHT = 800;
+const PREVIEW_ASPECT_RATIO = 3 / 4;
+const ASPECT_RATIO_TOLERANCE = 0.02;
+const SCREENSHOT_MIN_SIZE = { width: 1280, height: 720 };
+const SCREENSHOT_MAX_SIZE = { width: 3840, height: 2160 };
+
+// Colors a dark mode needs a counterpart for: surfaces (including backgrounds), text and borders
+const DARK_MODE_COLOR_PATTERN = /^(background|surface|text|border)(-|$)/;
+
+export interface ThemeValidatorOptions {
+  /**
+   * File contents to validate instead of what is on disk, keyed by path
+   * (e.g., unsaved editor buffers)
+   */
+  overlay?: Map<string, string>;
+  /** Tokens to copy missing recommended tokens from when fixing (e.g., the starter theme's) */
+  starterTokens?: DesignTokens;
+  /** Rule configuration to use instead of the theme's .spwigrc.json */
+  config?: ValidatorConfig;
+  /** Custom rules to run after the built-in checks */
+  rules?: ValidationRule[];
+  /**
+   * Whether to import the rule modules listed in the config's "plugins" (default true).
+   * Turn off for themes whose code shouldn't be run, such as untrusted workspaces.
+   */
+  loadPlugins?: boolean;
+  /**
+   * Platform version to check the theme against (spwig compat): its declared platform range,
+   * and the tokens, preset layout types and widgets it uses
+   */
+  platformVersion?: string;
+}
 
 export class ThemeValidator extends ManifestValidator {
   private themeDir: string;
   private manifest: ThemeManifest | null = null;
+  private tokens: DesignTokens | null = null;
+  private starterTokens: DesignTokens | undefined;
+  private configOverride: ValidatorConfig | undefined;
+  private config: ValidatorConfig = {};
+  private presets: PresetFile[] = [];
+  private images: ThemeImages = { screenshots: [] };
+  private rules: ValidationRule[];
+  private loadPlugins: boolean;
+  private platformVersion: string | undefined;
+  private platformChecked = false;
 
-  constructor(themeDir: string) {
+  constructor(themeDir: string, options: ThemeValidatorOptions = {}) {
     super();
     this.themeDir = path.resolve(themeDir);
+    this.starterTokens = options.starterTokens;
+    this.configOverride = options.config;
+    this.rules = [...(options.rules || [])];
+    this.loadPlugins = options.loadPlugins !== false;
+    this.platformVersion = options.platformVersion;
+    if (options.overlay) {
+      this.overlay = new Map(
+        [...options.overlay].map(([filePath, content]) => [path.resolve(this.themeDir, filePath), content])
+      );
+    }
+  }
+
+  /**
+   * Add a custom rule, run after the built-in checks
+   */
+  registerRule(rule: ValidationRule): this {
+    this.rules.push(rule);
+    return this;
   }
 
   /**
@@ -32,6 +124,11 @@ export class ThemeValidator extends ManifestValidator {
    */
   async validate(): Promise<ValidationResult> {
     this.reset();
+    this.tokens = null;
+    this.config = {};
+    this.presets = [];
+    this.images = { screenshots: [] };
+    this.platformChecked = false;
 
     // 1. Check directory exists
     if (!(await this.directoryExists(this.themeDir))) {
@@ -41,6 +138,9 @@ export class ThemeValidator extends ManifestValidator {
       return this.buildResult();
     }
 
+    // Rule severities, ignores and thresholds
+    this.config = this.configOverride || (await this.loadConfig());
+
     // 2. Check required files
     const manifestPath = path.join(this.themeDir, 'manifest.json');
     if (!(await this.fileExists(manifestPath))) {
@@ -59,29 +159,48 @@ export class ThemeValidator extends ManifestValidator {
     const schemaPath = path.join(__dirname, '../../schemas/theme_manifest_schema.json');
     const schema = await this.loadSchema(schemaPath);
 
-    if (!this.validateAgainstSchema(this.manifest, schema, 'theme manifest')) {
+    if (!this.validateAgainstSchema(this.manifest, schema, 'theme manifest', manifestPath)) {
       return this.buildResult();
     }
 
+    // Changelog order, dates and agreement with the manifest version
+    this.validateChangelog(this.manifest);
+
     // 4. Validate tokens.json (required — the primary deliverable)
     await this.validateTokensFile();
 
-    // 5. Validate overrides.css (if exists)
+    // Dark tokens against features.dark_mode
+    this.validateDarkMode(this.manifest);
+
+    // Direction tokens pinned to left-to-right when features.rtl_support is set
+    this.validateTextDirection(this.manifest);
+
+    // 5. Check text/background contrast
+    this.validateContrast();
+
+    // 6. Validate overrides.css (if exists)
     await this.validateOverrides();
 
-    // 6. Validate presets (if exists — Tier 2)
+    // 7. Validate presets (if exists — Tier 2)
     await this.validatePresets();
 
-    // 7. Validate preview image (if declared)
+    // 8. Check platform and SDK versions
+    await this.validatePlatformVersions(this.manifest);
+    this.platformChecked = true;
+
+    // 9. Validate preview image (if declared)
     if (this.manifest.preview_image) {
       await this.validatePreviewImage();
     }
 
-    // 8. Validate screenshots (if declared)
+    // 10. Validate screenshots (if declared)
     if (this.manifest.screenshots && this.manifest.screenshots.length > 0) {
       await this.validateScreenshots();
     }
 
+    // 11. Run custom rules (registered and config plugins)
+    await this.runCustomRules(this.manifest);
+
     return this.buildResult();
   }
 
@@ -100,7 +219,10 @@ export class ThemeValidator extends ManifestValidator {
 
     // Use the DesignTokensValidator for detailed validation
     const tokensValidator = new DesignTokensValidator();
-    const result = await tokensValidator.validate(tokensPath);
+    const result = await tokensValidator.validate(tokensPath, {
+      content: this.overlay.get(tokensPath),
+      starterTokens: this.starterTokens,
+    });
 
     // Forward errors and warnings
     for (const error of result.errors) {
@@ -109,6 +231,162 @@ export class ThemeValidator extends ManifestValidator {
     for (const warning of result.warnings) {
       this.addWarning(warning);
     }
+
+    // Keep parsed tokens for cross-file checks (already reported above if invalid)
+    this.tokens = await this.readJSONSource<DesignTokens>(tokensPath).catch(() => null);
+  }
+
+  /**
+   * Cross-check features.dark_mode and the dark token category: a declared dark mode needs dark tokens,
+   * each dark token needs a colors (or shadows, for shadow-*) counterpart to override, and every
+   * surface, text and border color should have one
+   */
+  private validateDarkMode(manifest: ThemeManifest): void {
+    if (!this.tokens) {
+      return;
+    }
+
+    const manifestPath = path.join(this.themeDir, 'manifest.json');
+    const tokensPath = path.join(this.themeDir, 'tokens.json');
+    const declared = manifest.features?.dark_mode;
+    const dark = this.tokens.dark && typeof this.tokens.dark === 'object' ? this.tokens.dark : {};
+    const darkKeys = Object.keys(dark);
+
+    if (darkKeys.length === 0) {
+      if (declared === true) {
+        this.addError(
+          createError('missing_dark_tokens', 'features.dark_mode is true but tokens.json has no dark tokens', {
+            path: this.tokens.dark ? tokensPath : manifestPath,
+            pointer: this.tokens.dark ? '/dark' : '/features/dark_mode',
+            suggestion: 'Add dark counterparts of your surface, text and border colors to "dark", or set features.dark_mode to false',
+          })
+        );
+      }
+      return;
+    }
+
+    if (declared !== true) {
+      let edit: TextEdit | null;
+      if (declared === false) {
+        edit = this.jsonReplaceEdit(manifestPath, '/features/dark_mode', false, true);
+      } else if (manifest.features) {
+        edit = this.jsonInsertEdit(manifestPath, '/features', { dark_mode: true });
+      } else {
+        edit = this.jsonInsertEdit(manifestPath, '', { features: { dark_mode: true } });
+      }
+      this.addWarning(
+        createWarning(
+          'undeclared_dark_mode',
+          declared === false
+            ? 'tokens.json has dark tokens but features.dark_mode is false, so they are never applied'
+            : 'tokens.json has dark tokens but features.dark_mode is not set',
+          {
+            path: tokensPath,
+            pointer: '/dark',
+            suggestion: 'Set features.dark_mode to true in manifest.json, or remove the dark tokens',
+            fix: edit ? { description: 'Set features.dark_mode to true', edits: [edit] } : undefined,
+          }
+        )
+      );
+    }
+
+    // Mirror the compiler: a dark key overrides the colors (or shadows, for shadow-*) token of the same name
+    for (const key of darkKeys) {
+      const [category, lightKey] = key.startsWith('shadow-')
+        ? ['shadows', key.slice('shadow-'.length)]
+        : ['colors', key];
+      const counterparts = this.tokens[category] || {};
+      if (typeof counterparts[lightKey] === 'string') {
+        continue;
+      }
+
+      const match = findClosestMatch(lightKey, Object.keys(counterparts));
+      this.addWarning(
+        createWarning(
+          'orphan_dark_token',
+          `Dark token "${key}" has no ${category} counterpart, so it only defines ${TokenCompiler.getVariableName('dark', [key])}`,
+          {
+            path: tokensPath,
+            pointer: jsonPointer('dark', key),
+            suggestion: match
+              ? `Did you mean "${category === 'shadows' ? 'shadow-' + match : match}"?`
+              : `Add "${lightKey}" to ${category}, or remove it from dark`,
+          }
+        )
+      );
+    }
+
+    const missing = Object.keys(this.tokens.colors || {}).filter(
+      (key) => DARK_MODE_COLOR_PATTERN.test(key) && !(key in dark)
+    );
+    if (missing.length > 0) {
+      this.addWarning(
+        createWarning('incomplete_dark_mode', `Dark mode has no counterpart for these colors: ${missing.join(', ')}`, {
+          path: tokensPath,
+          pointer: '/dark',
+          suggestion: 'Surface, text and border colors without a dark token keep their light value in dark mode',
+        })
+      );
+    }
+  }
+
+  /**
+   * Report direction tokens (e.g., elements.body.direction) set to ltr in themes declaring
+   * features.rtl_support, which would keep right-to-left pages left-to-right
+   */
+  private validateTextDirection(manifest: ThemeManifest): void {
+    if (!this.tokens || !manifest.features?.rtl_support) {
+      return;
+    }
+
+    const tokensPath = path.join(this.themeDir, 'tokens.json');
+    const visit = (value: unknown, keyPath: string[]) => {
+      if (value && typeof value === 'object' && !Array.isArray(value)) {
+        for (const [key, child] of Object.entries(value)) {
+          visit(child, [...keyPath, key]);
+        }
+        return;
+      }
+
+      const key = keyPath[keyPath.length - 1];
+      if (!/(^|-)direction$/.test(key) || typeof value !== 'string' || !/\bltr\b/.test(value)) {
+        return;
+      }
+      const pointer = jsonPointer(...keyPath);
+      const edit = this.jsonReplaceEdit(tokensPath, pointer, value, 'inherit');
+      this.addWarning(
+        createWarning('fixed_text_direction', `Token "${keyPath.join('.')}" forces left-to-right text: ${value}`, {
+          path: tokensPath,
+          pointer,
+          suggestion: 'Use "inherit" so text follows the page direction',
+          fix: edit ? { description: 'Inherit the page direction', edits: [edit] } : undefined,
+        })
+      );
+    };
+    visit(this.tokens, []);
+  }
+
+  /**
+   * Check token color pairs against the declared WCAG level (features.accessibility)
+   */
+  private validateContrast(): void {
+    if (!this.tokens || !this.manifest) {
+      return;
+    }
+
+    const contrastValidator = new ContrastValidator();
+    const result = contrastValidator.validate(this.tokens, {
+      level: parseAccessibilityLevel(this.manifest.features?.accessibility),
+      darkMode: this.manifest.features?.dark_mode === true,
+      path: path.join(this.themeDir, 'tokens.json'),
+    });
+
+    for (const error of result.errors) {
+      this.addError(error);
+    }
+    for (const warning of result.warnings) {
+      this.addWarning(warning);
+    }
   }
 
   /**
@@ -123,22 +401,39 @@ export class ThemeValidator extends ManifestValidator {
 
     // Check it's valid UTF-8 and not empty
     try {
-      const content = await fs.readFile(overridesPath, 'utf-8');
+      const content = await this.readSource(overridesPath);
       if (content.trim().length === 0) {
         this.addWarning(
           createWarning('empty_overrides', 'overrides.css is empty — you can remove it if not needed')
         );
       }
 
-      // Check file size (max 1MB for CSS)
-      const stats = await fs.stat(overridesPath);
-      if (stats.size > 1024 * 1024) {
+      // Check file size (1MB for CSS by default)
+      const { maxOverridesSize } = getThresholds(this.config);
+      if (Buffer.byteLength(content) > maxOverridesSize) {
         this.addWarning(
-          createWarning('large_overrides', 'overrides.css is larger than 1MB', {
+          createWarning('large_overrides', `overrides.css is larger than ${formatSize(maxOverridesSize)}`, {
             suggestion: 'Consider moving styles into tokens.json values where possible',
           })
         );
       }
+
+      // Check var(--theme-*) references resolve to a token or platform variable
+      const overridesValidator = new OverridesValidator();
+      const result = await overridesValidator.validate(overridesPath, this.tokens, content);
+      for (const error of result.errors) {
+        this.addError(error);
+      }
+      for (const warning of result.warnings) {
+        this.addWarning(warning);
+      }
+
+      // Check for left/right styling that doesn't mirror in right-to-left locales
+      if (this.manifest?.features?.rtl_support) {
+        for (const warning of new RtlValidator().validate(content, overridesPath).warnings) {
+          this.addWarning(warning);
+        }
+      }
     } catch (error) {
       this.addError(
         createError('invalid_overrides', `Failed to read overrides.css: ${error instanceof Error ? error.message : error}`)
@@ -169,13 +464,8 @@ export class ThemeValidator extends ManifestValidator {
     }
   }
 
-  // Valid header layout types (must match platform HeaderTemplate.layout_type choices)
-  private static VALID_HEADER_LAYOUT_TYPES = ['classic', 'boutique', 'minimal', 'mega', 'promotional', 'split'];
-  private static VALID_HEADER_ZONES = ['top-bar', 'main-header', 'bottom-bar', 'mega-menu-bar'];
-  private static HEADER_ZONE_PATTERN = /^(top-bar|main-header|bottom-bar|mega-menu-bar)_(left|center|right|full)$/;
-
   /**
-   * Validate a directory of preset JSON files
+   * Validate a directory of preset JSON files against the header/footer preset schema
    */
   private async validatePresetDir(dir: string, type: 'header' | 'footer'): Promise<void> {
     const files = await fs.readdir(dir);
@@ -188,79 +478,304 @@ export class ThemeValidator extends ManifestValidator {
       return;
     }
 
+    const schema = await this.loadSchema(path.join(__dirname, `../../schemas/${type}_preset_schema.json`));
+
     for (const file of jsonFiles) {
       const filePath = path.join(dir, file);
+      const label = `${type} preset "${file}"`;
 
+      let preset: Partial<LayoutPreset>;
       try {
-        const preset = await fs.readJSON(filePath);
-
-        // Validate required preset fields
-        if (!preset.name || typeof preset.name !== 'string') {
+        preset = await this.readJSONSource<Partial<LayoutPreset>>(filePath);
+      } catch (error) {
+        if (error instanceof JsonParseError) {
           this.addError(
-            createError('invalid_preset', `${type} preset "${file}" is missing required "name" field`)
+            createError('json_parse_error', `Invalid JSON in ${label}: ${error.message}`, {
+              path: filePath,
+              line: error.line,
+              column: error.column,
+            })
+          );
+        } else {
+          this.addError(
+            createError('read_error', `Failed to read ${label}: ${error instanceof Error ? error.message : error}`, {
+              path: filePath,
+            })
           );
         }
+        continue;
+      }
+
+      this.presets.push({ type, path: filePath, preset });
+      this.validateAgainstSchema(preset, schema, label, filePath);
+
+      if (Array.isArray(preset?.widget_placements)) {
+        const knownZones = Object.keys(schema.properties?.zone_layouts?.properties || {});
+        this.validatePlacements(preset.widget_placements, preset.zone_layouts, knownZones, label, filePath);
+      }
+    }
+  }
+
+  /**
+   * Check widget placements against the preset's declared zones and for ordering conflicts
+   * @param knownZones - Zones the schema allows for this preset type
+   */
+  private validatePlacements(
+    placements: Partial<WidgetPlacement>[],
+    declaredZones: LayoutPreset['zone_layouts'],
+    knownZones: string[],
+    label: string,
+    filePath: string
+  ): void {
+    const zoneLayouts = declaredZones && typeof declaredZones === 'object' ? declaredZones : null;
+    const orders = new Map<string, Map<number, string>>();
+
+    for (const [index, placement] of placements.entries()) {
+      if (typeof placement?.zone !== 'string') continue; // Reported by the schema
 
-        if (!preset.layout_type || typeof preset.layout_type !== 'string') {
+      const widget = typeof placement.widget_type === 'string' ? placement.widget_type : 'unknown';
+      const [zoneName, position] = placement.zone.split('_');
+
+      // Each placement must land in a zone and position declared in zone_layouts
+      // (zones the preset type doesn't support are reported by the schema)
+      if (zoneLayouts && position && knownZones.includes(zoneName)) {
+        const positions = zoneLayouts[zoneName];
+        if (!Array.isArray(positions)) {
           this.addError(
-            createError('invalid_preset', `${type} preset "${file}" is missing required "layout_type" field`)
+            createError(
+              'undeclared_zone',
+              `${label}: widget "${widget}" is placed in "${placement.zone}", but zone_layouts doesn't declare "${zoneName}"`,
+              { path: filePath, pointer: jsonPointer('widget_placements', index, 'zone') }
+            )
           );
-        } else if (type === 'header' && !ThemeValidator.VALID_HEADER_LAYOUT_TYPES.includes(preset.layout_type)) {
+        } else if (!positions.includes(position)) {
           this.addError(
-            createError('invalid_preset', `${type} preset "${file}" has invalid layout_type "${preset.layout_type}". Must be one of: ${ThemeValidator.VALID_HEADER_LAYOUT_TYPES.join(', ')}`)
+            createError(
+              'undeclared_zone',
+              `${label}: widget "${widget}" is placed in "${placement.zone}", but zone_layouts["${zoneName}"] only declares: ${positions.join(', ')}`,
+              { path: filePath, pointer: jsonPointer('widget_placements', index, 'zone') }
+            )
           );
         }
+      }
 
-        // Validate zone_layouts keys if present
-        if (type === 'header' && preset.zone_layouts && typeof preset.zone_layouts === 'object') {
-          for (const zoneName of Object.keys(preset.zone_layouts)) {
-            if (!ThemeValidator.VALID_HEADER_ZONES.includes(zoneName)) {
-              this.addError(
-                createError('invalid_preset', `${type} preset "${file}" has invalid zone "${zoneName}" in zone_layouts. Must be one of: ${ThemeValidator.VALID_HEADER_ZONES.join(', ')}`)
-              );
-            }
-          }
-        }
+      // Widgets sharing a zone position need distinct order values
+      const order = Number.isInteger(placement.order) ? placement.order! : 0;
+      const zoneOrders = orders.get(placement.zone) || new Map<number, string>();
+      const existing = zoneOrders.get(order);
+      if (existing) {
+        this.addError(
+          createError(
+            'duplicate_widget_order',
+            `${label}: widgets "${existing}" and "${widget}" both use order ${order} in "${placement.zone}"`,
+            { path: filePath, pointer: jsonPointer('widget_placements', index, 'order') }
+          )
+        );
+      } else {
+        zoneOrders.set(order, widget);
+      }
+      orders.set(placement.zone, zoneOrders);
+    }
+  }
 
-        if (!preset.widget_placements || !Array.isArray(preset.widget_placements)) {
-          this.addError(
-            createError('invalid_preset', `${type} preset "${file}" is missing required "widget_placements" array`)
-          );
-        } else {
-          // Validate each widget placement
-          for (const placement of preset.widget_placements) {
-            if (!placement.widget_type || typeof placement.widget_type !== 'string') {
-              this.addError(
-                createError('invalid_preset', `${type} preset "${file}" has a placement missing "widget_type"`)
-              );
-            }
-            if (!placement.zone || typeof placement.zone !== 'string') {
-              this.addError(
-                createError('invalid_preset', `${type} preset "${file}" has a placement missing "zone"`)
-              );
-            } else if (type === 'header' && !ThemeValidator.HEADER_ZONE_PATTERN.test(placement.zone)) {
-              this.addError(
-                createError('invalid_preset', `${type} preset "${file}" has invalid zone "${placement.zone}". Must match format: zone-name_position (e.g., main-header_left, mega-menu-bar_full)`)
-              );
-            }
+  /**
+   * Check changelog entries are newest first with unique versions and real dates,
+   * and that the newest one is the manifest version
+   */
+  private validateChangelog(manifest: ThemeManifest): void {
+    const changelog = manifest.changelog;
+    if (!changelog || changelog.length === 0) {
+      return;
+    }
+
+    const manifestPath = path.join(this.themeDir, 'manifest.json');
+    const seen = new Map<string, number>();
+
+    for (const [index, entry] of changelog.entries()) {
+      const first = seen.get(entry.version);
+      if (first !== undefined) {
+        this.addError(
+          createError(
+            'duplicate_changelog_version',
+            `Changelog has two entries for version ${entry.version} (also changelog[${first}])`,
+            { path: manifestPath, pointer: jsonPointer('changelog', index, 'version') }
+          )
+        );
+      } else {
+        seen.set(entry.version, index);
+      }
+
+      if (!isCalendarDate(entry.date)) {
+        this.addError(
+          createError('invalid_changelog_date', `Changelog date for ${entry.version} is not a real date: ${entry.date}`, {
+            path: manifestPath,
+            pointer: jsonPointer('changelog', index, 'date'),
+            suggestion: 'Use YYYY-MM-DD, e.g. 2026-02-07',
+          })
+        );
+      }
+
+      if (this.compareVersions(entry.version, manifest.version) > 0) {
+        this.addError(
+          createError(
+            'changelog_version_ahead',
+            `Changelog entry ${entry.version} is newer than the manifest version ${manifest.version}`,
+            { path: manifestPath, pointer: jsonPointer('changelog', index, 'version') }
+          )
+        );
+      }
+    }
+
+    // Newest first; sort() is stable, so entries with equal versions keep their order
+    const order = changelog
+      .map((_, index) => index)
+      .sort((a, b) => this.compareVersions(changelog[b].version, changelog[a].version));
+    const sorted = order.map((index) => changelog[index]);
+    if (order.some((index, slot) => index !== slot)) {
+      const edit = this.jsonReorderEdit(manifestPath, '/changelog', order);
+      this.addWarning(
+        createWarning('changelog_order', 'Changelog entries are not ordered newest version first', {
+          path: manifestPath,
+          pointer: '/changelog',
+          fix: edit ? { description: 'Sort changelog entries newest first', edits: [edit] } : undefined,
+        })
+      );
+    }
+
+    for (let i = 1; i < sorted.length; i++) {
+      const [newer, older] = [sorted[i - 1], sorted[i]];
+      if (
+        older.version !== newer.version &&
+        isCalendarDate(older.date) &&
+        isCalendarDate(newer.date) &&
+        older.date > newer.date
+      ) {
+        this.addWarning(
+          createWarning(
+            'changelog_date_order',
+            `Changelog entry ${older.version} is dated ${older.date}, after ${newer.version} (${newer.date})`,
+            { path: manifestPath, pointer: jsonPointer('changelog', order[i], 'date') }
+          )
+        );
+      }
+    }
+
+    if (!seen.has(manifest.version)) {
+      this.addWarning(
+        createWarning('changelog_missing_version', `Changelog has no entry for the manifest version ${manifest.version}`, {
+          path: manifestPath,
+          pointer: '/changelog',
+          suggestion: 'Add one with spwig release, or by hand',
+        })
+      );
+    }
+  }
+
+  /**
+   * Check min_platform_version, max_platform_version and sdk_version against each other and the
+   * capability table, and the platform versions the theme's features need
+   */
+  private async validatePlatformVersions(manifest: ThemeManifest): Promise<void> {
+    const capabilities = await loadPlatformCapabilities();
+    const manifestPath = path.join(this.themeDir, 'manifest.json');
+    const { min_platform_version: min, max_platform_version: max, sdk_version: sdk } = manifest;
+
+    if (min && max && this.compareVersions(min, max) > 0) {
+      this.addError(
+        createError('invalid_platform_range', `max_platform_version ${max} is lower than min_platform_version ${min}`, {
+          path: manifestPath,
+          pointer: '/max_platform_version',
+        })
+      );
+    }
+
+    // SDK versions are major.minor ("2.0"); "2.0.1" and "v2.0" mean the same
+    const sdkMatch = sdk ? /^v?(\d+)\.(\d+)(?:\.\d+)?$/.exec(sdk.trim()) : null;
+    const sdkKey = sdkMatch ? `${Number(sdkMatch[1])}.${Number(sdkMatch[2])}` : undefined;
+    const sdkRange = sdkKey ? capabilities.sdk_versions[sdkKey] : undefined;
+    if (sdk && !sdkRange) {
+      this.addError(
+        createError(
+          'unsupported_sdk_version',
+          `sdk_version "${sdk}" isn't supported by this validator (supported: ${Object.keys(capabilities.sdk_versions).join(', ')})`,
+          {
+            path: manifestPath,
+            pointer: '/sdk_version',
+            suggestion: 'Update @spwig/theme-cli, or set sdk_version to a supported version',
           }
-        }
-      } catch (error) {
-        if (error instanceof SyntaxError) {
-          this.addError(
-            createError('json_parse_error', `Invalid JSON in ${type} preset "${file}": ${error.message}`)
-          );
-        } else {
-          this.addError(
-            createError('read_error', `Failed to read ${type} preset "${file}": ${error instanceof Error ? error.message : error}`)
+        )
+      );
+    } else if (sdkRange && min && !satisfies(min, sdkRange, { includePrerelease: true })) {
+      this.addWarning(
+        createWarning(
+          'platform_sdk_mismatch',
+          `SDK ${sdkKey} themes run on platform ${sdkRange}, but min_platform_version is ${min}`,
+          { path: manifestPath, pointer: '/min_platform_version' }
+        )
+      );
+    }
+
+    const features = findPlatformFeatures(
+      capabilities,
+      this.tokens,
+      path.join(this.themeDir, 'tokens.json'),
+      this.presets
+    );
+
+    if (min) {
+      for (const feature of features) {
+        if (!satisfies(min, feature.range, { includePrerelease: true })) {
+          this.addWarning(
+            createWarning(
+              'min_platform_too_low',
+              `${describePlatformFeature(feature)} needs platform ${feature.range}, but min_platform_version is ${min}`,
+              {
+                path: feature.path,
+                pointer: feature.pointer,
+                suggestion: 'Raise min_platform_version, or stop using it on older platforms',
+              }
+            )
           );
         }
       }
     }
+
+    if (!this.platformVersion) {
+      return;
+    }
+    const platform = this.platformVersion;
+    if (!parseSemver(platform)) {
+      this.addError(createError('invalid_platform_version', `Platform version is not a semantic version: ${platform}`));
+      return;
+    }
+
+    const outOfRange = (pointer: string, message: string) =>
+      this.addError(createError('platform_out_of_range', message, { path: manifestPath, pointer }));
+    if (min && this.compareVersions(platform, min) < 0) {
+      outOfRange('/min_platform_version', `Platform ${platform} is below the theme's min_platform_version ${min}`);
+    }
+    if (max && this.compareVersions(platform, max) > 0) {
+      outOfRange('/max_platform_version', `Platform ${platform} is above the theme's max_platform_version ${max}`);
+    }
+    if (sdkRange && !satisfies(platform, sdkRange, { includePrerelease: true })) {
+      outOfRange('/sdk_version', `SDK ${sdkKey} themes don't run on platform ${platform} (needs ${sdkRange})`);
+    }
+
+    for (const feature of features) {
+      if (!satisfies(platform, feature.range, { includePrerelease: true })) {
+        this.addError(
+          createError(
+            `unsupported_${feature.kind}`,
+            `${describePlatformFeature(feature)} isn't supported on platform ${platform} (needs ${feature.range})`,
+            { path: feature.path, pointer: feature.pointer }
+          )
+        );
+      }
+    }
   }
 
   /**
-   * Validate preview image exists
+   * Validate preview image exists, is a real image and meets the marketplace size requirements
    */
   private async validatePreviewImage(): Promise<void> {
     if (!this.manifest?.preview_image) return;
@@ -269,33 +784,67 @@ export class ThemeValidator extends ManifestValidator {
 
     if (!(await this.fileExists(previewPath))) {
       this.addError(
-        createError('missing_preview', `Preview image not found: ${this.manifest.preview_image}`)
+        createError('missing_preview', `Preview image not found: ${this.manifest.preview_image}`, {
+          path: path.join(this.themeDir, 'manifest.json'),
+          pointer: '/preview_image',
+        })
       );
       return;
     }
 
-    // Check file size (max 5MB)
-    const maxSize = 5 * 1024 * 1024;
+    // Check file size (5MB by default)
+    const { maxImageSize } = getThresholds(this.config);
     const stats = await fs.stat(previewPath);
 
-    if (stats.size > maxSize) {
+    if (stats.size > maxImageSize) {
       this.addError(
         createError(
           'file_too_large',
-          `Preview image too large (max 5MB): ${this.manifest.preview_image}`
+          `Preview image too large (max ${formatSize(maxImageSize)}): ${this.manifest.preview_image}`,
+          { path: path.join(this.themeDir, 'manifest.json'), pointer: '/preview_image' }
+        )
+      );
+    }
+
+    const location = { path: path.join(this.themeDir, 'manifest.json'), pointer: '/preview_image' };
+    const preview = await this.inspectImage(this.manifest.preview_image, 'Preview image', location);
+    if (!preview) {
+      return;
+    }
+    this.images.preview = preview;
+
+    const { file, width, height } = preview;
+    if (width < PREVIEW_MIN_WIDTH || height < PREVIEW_MIN_HEIGHT) {
+      this.addError(
+        createError(
+          'preview_too_small',
+          `Preview image is ${width}x${height}, below the ${PREVIEW_MIN_WIDTH}x${PREVIEW_MIN_HEIGHT} minimum: ${file}`,
+          { ...location, suggestion: `Export the preview at ${PREVIEW_MIN_WIDTH}x${PREVIEW_MIN_HEIGHT} or larger` }
+        )
+      );
+    }
+    if (Math.abs(width / height - PREVIEW_ASPECT_RATIO) / PREVIEW_ASPECT_RATIO > ASPECT_RATIO_TOLERANCE) {
+      this.addError(
+        createError(
+          'preview_aspect_ratio',
+          `Preview image is ${width}x${height}, but previews must be in 3:4 portrait format: ${file}`,
+          { ...location, suggestion: `Crop the preview to 3:4, e.g. ${PREVIEW_MIN_WIDTH}x${PREVIEW_MIN_HEIGHT}` }
         )
       );
     }
   }
 
   /**
-   * Validate screenshot files exist.
+   * Validate screenshot files exist, are real images within the marketplace size range and share one size.
    * Screenshots are objects with a required "file" key and optional "title".
    */
   private async validateScreenshots(): Promise<void> {
     if (!this.manifest?.screenshots) return;
 
-    for (const entry of this.manifest.screenshots) {
+    const manifestPath = path.join(this.themeDir, 'manifest.json');
+
+    for (const [index, entry] of this.manifest.screenshots.entries()) {
+      const location = { path: manifestPath, pointer: jsonPointer('screenshots', index) };
       let filePath: string | undefined;
       if (typeof entry === 'string') {
         filePath = entry;
@@ -303,43 +852,266 @@ export class ThemeValidator extends ManifestValidator {
         filePath = entry.file;
       }
       if (!filePath) {
-        this.addError(createError('invalid_screenshot', 'Screenshot entry is missing "file" field'));
+        this.addError(createError('invalid_screenshot', 'Screenshot entry is missing "file" field', location));
         continue;
       }
 
       const screenshotPath = path.join(this.themeDir, filePath);
 
       if (!(await this.fileExists(screenshotPath))) {
-        this.addError(createError('missing_screenshot', `Screenshot not found: ${filePath}`));
+        this.addError(createError('missing_screenshot', `Screenshot not found: ${filePath}`, location));
         continue;
       }
 
-      // Check file size (max 5MB each)
-      const maxSize = 5 * 1024 * 1024;
+      // Check file size (5MB each by default)
+      const { maxImageSize } = getThresholds(this.config);
       const stats = await fs.stat(screenshotPath);
 
-      if (stats.size > maxSize) {
+      if (stats.size > maxImageSize) {
         this.addWarning(
-          createWarning('large_screenshot', `Screenshot is large (>5MB): ${filePath}`, {
+          createWarning('large_screenshot', `Screenshot is large (>${formatSize(maxImageSize)}): ${filePath}`, {
+            ...location,
             suggestion: 'Consider optimizing the screenshot to reduce file size',
           })
         );
       }
+
+      const screenshot = await this.inspectImage(filePath, 'Screenshot', location);
+      if (!screenshot) {
+        continue;
+      }
+
+      const { width, height } = screenshot;
+      const size = `${width}x${height}`;
+      const range = `${SCREENSHOT_MIN_SIZE.width}x${SCREENSHOT_MIN_SIZE.height} to ${SCREENSHOT_MAX_SIZE.width}x${SCREENSHOT_MAX_SIZE.height}`;
+      if (width < SCREENSHOT_MIN_SIZE.width || height < SCREENSHOT_MIN_SIZE.height) {
+        this.addError(
+          createError('screenshot_too_small', `Screenshot is ${size}, below the ${range} range: ${filePath}`, location)
+        );
+      } else if (width > SCREENSHOT_MAX_SIZE.width || height > SCREENSHOT_MAX_SIZE.height) {
+        this.addError(
+          createError('screenshot_too_large', `Screenshot is ${size}, above the ${range} range: ${filePath}`, {
+            ...location,
+            suggestion: `Scale the screenshot down to at most ${SCREENSHOT_MAX_SIZE.width}x${SCREENSHOT_MAX_SIZE.height}`,
+          })
+        );
+      }
+
+      const [first] = this.images.screenshots;
+      if (first && (first.width !== width || first.height !== height)) {
+        this.addWarning(
+          createWarning(
+            'inconsistent_screenshot_size',
+            `Screenshot ${filePath} is ${size}, but ${first.file} is ${first.width}x${first.height}`,
+            { ...location, suggestion: 'Capture all screenshots at the same size' }
+          )
+        );
+      }
+      this.images.screenshots.push(screenshot);
+    }
+  }
+
+  /**
+   * Check that an image's content matches its extension and read its dimensions
+   * @returns Image info, or null when the file isn't a readable image
+   */
+  private async inspectImage(
+    file: string,
+    label: string,
+    location: { path: string; pointer: string }
+  ): Promise<ImageFileInfo | null> {
+    const info = readImageInfo(await fs.readFile(path.join(this.themeDir, file)));
+    if (!info) {
+      this.addError(
+        createError('invalid_image', `${label} is not a PNG, JPEG, WebP or GIF image: ${file}`, location)
+      );
+      return null;
+    }
+
+    const expected = IMAGE_EXTENSIONS[path.extname(file).toLowerCase()];
+    if (expected && expected !== info.format) {
+      this.addError(
+        createError(
+          'image_format_mismatch',
+          `${label} ${file} contains ${formatName(info.format)} data, not ${formatName(expected)}`,
+          { ...location, suggestion: `Re-export it as ${formatName(expected)} or change the file extension` }
+        )
+      );
+    }
+
+    return { file, ...info };
+  }
+
+  /**
+   * Run registered rules and those from the config's plugin modules.
+   * A rule that throws is reported as an error rather than failing validation.
+   */
+  private async runCustomRules(manifest: ThemeManifest): Promise<void> {
+    const rules = [...this.rules, ...(await this.loadPluginRules())];
+    if (rules.length === 0) {
+      return;
+    }
+
+    const files = await this.listThemeFiles();
+    const seen = new Set<string>();
+
+    for (const rule of rules) {
+      if (seen.has(rule.id)) {
+        this.addError(createError('plugin_error', `Custom rule "${rule.id}" is registered more than once`));
+        continue;
+      }
+      seen.add(rule.id);
+
+      try {
+        await rule.check(this.createRuleContext(rule, manifest, files));
+      } catch (error) {
+        this.addError(
+          createError(
+            'rule_error',
+            `Custom rule "${rule.id}" failed: ${error instanceof Error ? error.message : error}`
+          )
+        );
+      }
+    }
+  }
+
+  /**
+   * Import the rule modules listed in the config's "plugins", relative to the theme root
+   */
+  private async loadPluginRules(): Promise<ValidationRule[]> {
+    if (!this.loadPlugins || !this.config.plugins) {
+      return [];
+    }
+
+    const rules: ValidationRule[] = [];
+    for (const [index, plugin] of this.config.plugins.entries()) {
+      const location = { path: path.join(this.themeDir, CONFIG_FILE_NAME), pointer: jsonPointer('plugins', index) };
+      const pluginPath = path.resolve(this.themeDir, plugin);
+
+      if (!(await this.fileExists(pluginPath))) {
+        this.addError(createError('plugin_error', `Rule plugin not found: ${plugin}`, location));
+        continue;
+      }
+      try {
+        rules.push(...(await loadRulePlugin(pluginPath)));
+      } catch (error) {
+        this.addError(
+          createError(
+            'plugin_error',
+            `Failed to load rule plugin "${plugin}": ${error instanceof Error ? error.message : error}`,
+            location
+          )
+        );
+      }
+    }
+    return rules;
+  }
+
+  private createRuleContext(rule: ValidationRule, manifest: ThemeManifest, files: string[]): RuleContext {
+    return {
+      themeDir: this.themeDir,
+      manifest,
+      tokens: this.tokens,
+      presets: this.presets,
+      files,
+      readFile: (filePath) => this.readSource(path.resolve(this.themeDir, filePath)),
+      report: (issue: RuleIssue) => {
+        const { message, severity, path: filePath, ...location } = issue;
+        const options = { ...location, path: filePath && path.resolve(this.themeDir, filePath) };
+        if ((severity || rule.meta?.severity) === 'error') {
+          this.addError(createError(rule.id, message, options));
+        } else {
+          this.addWarning(createWarning(rule.id, message, options));
+        }
+      },
+    };
+  }
+
+  /**
+   * Theme files relative to the theme root, with POSIX separators
+   */
+  private async listThemeFiles(): Promise<string[]> {
+    const files: string[] = [];
+
+    const scan = async (dir: string): Promise<void> => {
+      for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+        if (entry.isDirectory()) {
+          if (!IGNORED_DIRECTORIES.has(entry.name)) {
+            await scan(path.join(dir, entry.name));
+          }
+        } else if (entry.isFile()) {
+          files.push(path.relative(this.themeDir, path.join(dir, entry.name)).split(path.sep).join('/'));
+        }
+      }
+    };
+
+    await scan(this.themeDir);
+    return files.sort();
+  }
+
+  /**
+   * Kebab-case manifest identifiers (slug, tags, categories) that fail their pattern
+   */
+  protected getSchemaFix(error: ErrorObject, filePath: string): Fix | undefined {
+    const isIdentifier = /^\/(slug|tags\/\d+|categories\/\d+)$/.test(error.instancePath);
+    if (error.keyword !== 'pattern' || !isIdentifier || typeof error.data !== 'string') {
+      return undefined;
+    }
+
+    const kebab = toKebabCase(error.data);
+    if (!/^[a-z][a-z0-9-]*$/.test(kebab)) {
+      return undefined;
+    }
+    const edit = this.jsonReplaceEdit(filePath, error.instancePath, error.data, kebab);
+    return edit ? { description: `Change "${error.data}" to "${kebab}"`, edits: [edit] } : undefined;
+  }
+
+  /**
+   * Load .spwigrc.json from the theme root, if there is one.
+   * An unreadable or invalid config is reported and not applied.
+   */
+  private async loadConfig(): Promise<ValidatorConfig> {
+    const configPath = path.join(this.themeDir, CONFIG_FILE_NAME);
+    if (!(await this.fileExists(configPath))) {
+      return {};
+    }
+
+    let config: ValidatorConfig;
+    try {
+      config = await this.loadJSON<ValidatorConfig>(configPath);
+    } catch {
+      return {};
     }
+
+    const schema = await this.loadSchema(path.join(__dirname, '../../schemas/spwigrc_schema.json'));
+    return this.validateAgainstSchema(config, schema, CONFIG_FILE_NAME, configPath) ? config : {};
   }
 
   /**
-   * Build validation result
+   * Build validation result, with the configured rule severities and ignores applied
    */
   private buildResult(): ValidationResult {
+    const { errors, warnings } = applyRuleConfig(
+      { errors: this.getErrors(), warnings: this.getWarnings() },
+      this.config,
+      this.themeDir
+    );
     return {
-      isValid: this.getErrors().length === 0,
-      errors: this.getErrors(),
-      warnings: this.getWarnings(),
-      themeInfo: this.manifest,
+      isValid: errors.length === 0,
+      errors,
+      warnings,
+      themeInfo: this.manifest && { ...this.manifest, images: this.images },
     };
   }
 
+  /**
+   * Whether the last validate() got as far as the platform checks. It stops before them
+   * when manifest.json is missing, isn't valid JSON or fails the manifest schema.
+   */
+  hasCheckedPlatform(): boolean {
+    return this.platformChecked;
+  }
+
   /**
    * Generate human-readable validation report
    */
@@ -356,7 +1128,7 @@ export class ThemeValidator extends ManifestValidator {
       lines.push('');
     }
 
-    const errors = this.getErrors();
+    const { errors, warnings } = this.buildResult();
     if (errors.length > 0) {
       lines.push(`ERRORS (${errors.length}):`);
       for (const error of errors) {
@@ -365,7 +1137,6 @@ export class ThemeValidator extends ManifestValidator {
       lines.push('');
     }
 
-    const warnings = this.getWarnings();
     if (warnings.length > 0) {
       lines.push(`WARNINGS (${warnings.length}):`);
       for (const warning of warnings) {
@@ -384,3 +1155,36 @@ export class ThemeValidator extends ManifestValidator {
     return lines.join('\n');
   }
 }
+
+/**
+ * Whether a YYYY-MM-DD string is a date that exists (no 2026-02-30)
+ */
+function isCalendarDate(value: string): boolean {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) {
+    return false;
+  }
+  const date = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+  return date.toISOString().slice(0, 10) === value;
+}
+
+/**
+ * Byte count for messages: 1048576 → "1MB"
+ */
+function formatSize(bytes: number): string {
+  if (bytes >= 1024 * 1024) {
+    return `${Math.round((bytes / (1024 * 1024)) * 10) / 10}MB`;
+  }
+  return bytes >= 1024 ? `${Math.round((bytes / 1024) * 10) / 10}KB` : `${bytes} bytes`;
+}
+
+/**
+ * "My Theme", "myTheme" and "my_theme" all become "my-theme"
+ */
+function toKebabCase(value: string): string {
+  return value
+    .replace(/([a-z0-9])([A-Z])/g, '$1-$2')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
@@ -1,9 +1,21 @@
 const esbuild = require('esbuild');
+const fs = require('fs');
+const path = require('path');
 
 const production = process.argv.includes('--production');
 const watch = process.argv.includes('--watch');
 
+// Schemas and the platform stylesheet the bundled validator reads at runtime
+function copyValidatorAssets() {
+  const validatorDir = path.dirname(require.resolve('@spwig/theme-validator/package.json'));
+  for (const dir of ['schemas', 'assets']) {
+    fs.cpSync(path.join(validatorDir, dir), path.join(__dirname, 'dist', dir), { recursive: true });
+  }
+}
+
 async function main() {
+  copyValidatorAssets();
+
   const ctx = await esbuild.context({
     entryPoints: ['src/extension.ts'],
     bundle: true,
@@ -14,6 +26,12 @@ async function main() {
     platform: 'node',
     outfile: 'dist/extension.js',
     external: ['vscode'],
+    // The validator is ESM and finds its schemas relative to import.meta.url.
+    // Point it at dist/validator/validators/ so ../../schemas resolves to dist/schemas.
+    define: { 'import.meta.url': 'importMetaUrl' },
+    banner: {
+      js: "const importMetaUrl = require('url').pathToFileURL(require('path').join(__dirname, 'validator', 'validators', 'index.js')).href;",
+    },
     logLevel: 'info',
     plugins: [
       /* add plugins here */
@@ -3,11 +3,12 @@ import { initCommand } from './init';
 import { validateCommand } from './validate';
 import { packageCommand } from './package';
 import { devCommand, devStopCommand } from './dev';
+import { DiagnosticsProvider } from '../providers/diagnosticsProvider';
 
-export function registerCommands(context: vscode.ExtensionContext) {
+export function registerCommands(context: vscode.ExtensionContext, diagnosticsProvider: DiagnosticsProvider) {
   context.subscriptions.push(
     vscode.commands.registerCommand('spwig.init', initCommand),
-    vscode.commands.registerCommand('spwig.validate', validateCommand),
+    vscode.commands.registerCommand('spwig.validate', () => validateCommand(diagnosticsProvider)),
     vscode.commands.registerCommand('spwig.package', packageCommand),
     vscode.commands.registerCommand('spwig.dev', devCommand),
     vscode.commands.registerCommand('spwig.devStop', devStopCommand),
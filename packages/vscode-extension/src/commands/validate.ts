@@ -1,8 +1,9 @@
 import * as vscode from 'vscode';
 import { ThemeValidator } from '@spwig/theme-validator';
 import { getThemePath } from '../utils/workspace';
+import { DiagnosticsProvider } from '../providers/diagnosticsProvider';
 
-export async function validateCommand() {
+export async function validateCommand(diagnosticsProvider: DiagnosticsProvider) {
   const themePath = await getThemePath();
 
   if (!themePath) {
@@ -19,7 +20,7 @@ export async function validateCommand() {
     },
     async () => {
       try {
-        const validator = new ThemeValidator(themePath);
+        const validator = new ThemeValidator(themePath, { loadPlugins: vscode.workspace.isTrusted });
         const result = await validator.validate();
 
         // Create output channel for detailed results
@@ -50,7 +51,7 @@ export async function validateCommand() {
         }
 
         // Update diagnostics for better IDE integration
-        updateDiagnostics(themePath, result);
+        diagnosticsProvider.showResult(themePath, result);
       } catch (error) {
         const message = error instanceof Error ? error.message : 'Unknown error';
         vscode.window.showErrorMessage(`Validation failed: ${message}`);
@@ -58,39 +59,3 @@ export async function validateCommand() {
     }
   );
 }
-
-/**
- * Update VS Code diagnostics based on validation results
- */
-function updateDiagnostics(
-  themePath: string,
-  result: { errors: Array<{ code: string; message: string }>; warnings: Array<{ code: string; message: string }> }
-) {
-  const diagnosticCollection = vscode.languages.createDiagnosticCollection('spwig-validation');
-  const manifestUri = vscode.Uri.file(`${themePath}/manifest.json`);
-  const diagnostics: vscode.Diagnostic[] = [];
-
-  // Add errors
-  for (const error of result.errors) {
-    diagnostics.push(
-      new vscode.Diagnostic(
-        new vscode.Range(0, 0, 0, 1),
-        error.message,
-        vscode.DiagnosticSeverity.Error
-      )
-    );
-  }
-
-  // Add warnings
-  for (const warning of result.warnings) {
-    diagnostics.push(
-      new vscode.Diagnostic(
-        new vscode.Range(0, 0, 0, 1),
-        warning.message,
-        vscode.DiagnosticSeverity.Warning
-      )
-    );
-  }
-
-  diagnosticCollection.set(manifestUri, diagnostics);
-}
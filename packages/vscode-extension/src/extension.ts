@@ -8,8 +8,12 @@ let diagnosticsProvider: DiagnosticsProvider | undefined;
 export function activate(context: vscode.ExtensionContext) {
   console.log('Spwig Theme Development extension is now active');
 
+  // Register diagnostics provider
+  diagnosticsProvider = new DiagnosticsProvider();
+  context.subscriptions.push(diagnosticsProvider);
+
   // Register commands
-  registerCommands(context);
+  registerCommands(context, diagnosticsProvider);
 
   // Register tree view
   const treeDataProvider = new ThemeTreeDataProvider();
@@ -22,20 +26,22 @@ export function activate(context: vscode.ExtensionContext) {
     })
   );
 
-  // Register diagnostics provider
-  diagnosticsProvider = new DiagnosticsProvider();
-  context.subscriptions.push(diagnosticsProvider);
-
-  // Auto-validate on save if enabled
+  // Auto-validate on save and edit if enabled (unsaved edits are validated in memory)
   const config = vscode.workspace.getConfiguration('spwig');
   if (config.get('autoValidate', true)) {
     context.subscriptions.push(
       vscode.workspace.onDidSaveTextDocument((document) => {
-        if (isSpwigFile(document)) {
-          diagnosticsProvider?.validateDocument(document);
-        }
+        diagnosticsProvider?.validateDocument(document);
+      }),
+      vscode.workspace.onDidChangeTextDocument((event) => {
+        diagnosticsProvider?.scheduleValidation(event.document);
+      }),
+      // Closing an unsaved document reverts the theme to what is on disk
+      vscode.workspace.onDidCloseTextDocument((document) => {
+        diagnosticsProvider?.validateDocument(document);
       })
     );
+    diagnosticsProvider.validateWorkspace();
   }
 
   // Show welcome message on first install
@@ -52,17 +58,6 @@ export function deactivate() {
   }
 }
 
-function isSpwigFile(document: vscode.TextDocument): boolean {
-  const fileName = document.fileName;
-  return (
-    fileName.endsWith('manifest.json') ||
-    fileName.endsWith('design_tokens.json') ||
-    fileName.endsWith('schema.json') ||
-    (fileName.endsWith('.json') && fileName.includes('/pages/')) ||
-    (fileName.endsWith('.html') && fileName.includes('/templates/'))
-  );
-}
-
 async function showWelcomeMessage() {
   const action = await vscode.window.showInformationMessage(
     'Welcome to Spwig Theme Development! Get started by creating a new theme or opening an existing one.',
@@ -1,11 +1,26 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import * as fs from 'fs';
-import { getThemePath } from '../utils/workspace';
+import { ThemeValidator } from '@spwig/theme-validator';
+import type { ValidationResult, ValidationError, ValidationWarning } from '@spwig/theme-validator';
+import { findThemeRoot, getThemePath } from '../utils/workspace';
+
+// Files the theme validator reads, relative to the theme root
+const THEME_FILE_PATTERN =
+  /^(manifest\.json|tokens\.json|overrides\.css|\.spwigrc\.json|presets\/(headers|footers)\/[^/]+\.json)$/;
+
+// Highlight a whole JSON string or CSS identifier at a diagnostic position
+const TOKEN_PATTERN = /"(?:[^"\\]|\\.)*"|[\w-]+/;
+
+// Wait for typing to pause before re-validating the theme
+const CHANGE_DELAY_MS = 400;
 
 export class DiagnosticsProvider implements vscode.Disposable {
   private diagnosticCollection: vscode.DiagnosticCollection;
   private disposables: vscode.Disposable[] = [];
+  private pendingChange: NodeJS.Timeout | undefined;
+  private generation = 0;
+  /** Files each theme last reported diagnostics on, keyed by theme root */
+  private themeFiles = new Map<string, vscode.Uri[]>();
 
   constructor() {
     this.diagnosticCollection = vscode.languages.createDiagnosticCollection('spwig');
@@ -13,177 +28,148 @@ export class DiagnosticsProvider implements vscode.Disposable {
   }
 
   dispose() {
+    if (this.pendingChange) {
+      clearTimeout(this.pendingChange);
+    }
     this.disposables.forEach((d) => d.dispose());
   }
 
-  async validateDocument(document: vscode.TextDocument) {
-    const diagnostics: vscode.Diagnostic[] = [];
-    const fileName = path.basename(document.fileName);
-    const text = document.getText();
-
-    try {
-      // Validate JSON files
-      if (document.languageId === 'json') {
-        const parsed = JSON.parse(text);
-
-        if (fileName === 'manifest.json') {
-          this.validateManifest(document, parsed, diagnostics);
-        } else if (fileName === 'tokens.json') {
-          this.validateDesignTokens(document, parsed, diagnostics);
-        }
-      }
-    } catch (e) {
-      // JSON parse error
-      if (e instanceof SyntaxError) {
-        const match = e.message.match(/position (\d+)/);
-        if (match) {
-          const pos = parseInt(match[1], 10);
-          const position = document.positionAt(pos);
-          diagnostics.push(
-            new vscode.Diagnostic(
-              new vscode.Range(position, position),
-              `Invalid JSON: ${e.message}`,
-              vscode.DiagnosticSeverity.Error
-            )
-          );
-        }
-      }
+  /**
+   * Whether the validator reads this document as part of a theme
+   */
+  static isThemeFile(document: vscode.TextDocument): boolean {
+    if (document.uri.scheme !== 'file') {
+      return false;
     }
-
-    this.diagnosticCollection.set(document.uri, diagnostics);
+    const themePath = findThemeRoot(document.fileName);
+    return !!themePath && THEME_FILE_PATTERN.test(toPosix(path.relative(themePath, document.fileName)));
   }
 
-  private validateManifest(
-    document: vscode.TextDocument,
-    manifest: Record<string, unknown>,
-    diagnostics: vscode.Diagnostic[]
-  ) {
-    // Check required fields
-    const requiredFields = ['name', 'version', 'display_name', 'description', 'author'];
-    for (const field of requiredFields) {
-      if (!manifest[field]) {
-        diagnostics.push(
-          new vscode.Diagnostic(
-            new vscode.Range(0, 0, 0, 1),
-            `Missing required field: "${field}"`,
-            vscode.DiagnosticSeverity.Error
-          )
-        );
-      }
+  /**
+   * Re-validate the theme a document belongs to
+   */
+  async validateDocument(document: vscode.TextDocument) {
+    if (!DiagnosticsProvider.isThemeFile(document)) {
+      return;
     }
+    await this.validateTheme(findThemeRoot(document.fileName)!);
+  }
 
-    // Validate version format
-    if (manifest.version && typeof manifest.version === 'string') {
-      const semverPattern = /^\d+\.\d+\.\d+$/;
-      if (!semverPattern.test(manifest.version)) {
-        const range = this.findFieldRange(document, 'version');
-        diagnostics.push(
-          new vscode.Diagnostic(
-            range,
-            'Version must be in semantic version format (e.g., "1.0.0")',
-            vscode.DiagnosticSeverity.Error
-          )
-        );
-      }
+  /**
+   * Re-validate after an edit, once typing pauses
+   */
+  scheduleValidation(document: vscode.TextDocument) {
+    if (!DiagnosticsProvider.isThemeFile(document)) {
+      return;
     }
-
-    // Validate name format
-    if (manifest.name && typeof manifest.name === 'string') {
-      const namePattern = /^[a-z][a-z0-9-]*$/;
-      if (!namePattern.test(manifest.name)) {
-        const range = this.findFieldRange(document, 'name');
-        diagnostics.push(
-          new vscode.Diagnostic(
-            range,
-            'Name must be lowercase with hyphens only (e.g., "my-theme")',
-            vscode.DiagnosticSeverity.Error
-          )
-        );
-      }
+    if (this.pendingChange) {
+      clearTimeout(this.pendingChange);
     }
+    this.pendingChange = setTimeout(() => {
+      this.pendingChange = undefined;
+      this.validateDocument(document);
+    }, CHANGE_DELAY_MS);
+  }
 
-    // Warn about missing optional but recommended fields
-    const recommendedFields = ['license', 'preview_image'];
-    for (const field of recommendedFields) {
-      if (!manifest[field]) {
-        diagnostics.push(
-          new vscode.Diagnostic(
-            new vscode.Range(0, 0, 0, 1),
-            `Recommended field missing: "${field}"`,
-            vscode.DiagnosticSeverity.Warning
-          )
-        );
-      }
+  async validateWorkspace() {
+    const themePath = await getThemePath();
+    if (!themePath) {
+      return;
     }
+    await this.validateTheme(themePath);
   }
 
-  private validateDesignTokens(
-    document: vscode.TextDocument,
-    tokens: Record<string, unknown>,
-    diagnostics: vscode.Diagnostic[]
-  ) {
-    // Check recommended token categories
-    const recommendedCategories = ['colors', 'typography', 'spacing'];
-    for (const category of recommendedCategories) {
-      if (!tokens[category]) {
-        diagnostics.push(
-          new vscode.Diagnostic(
-            new vscode.Range(0, 0, 0, 1),
-            `Recommended token category missing: "${category}"`,
-            vscode.DiagnosticSeverity.Hint
-          )
-        );
-      }
-    }
+  /**
+   * Run the theme validator with unsaved editor contents laid over the files on disk
+   */
+  private async validateTheme(themePath: string) {
+    const generation = ++this.generation;
+    const overlay = new Map<string, string>();
 
-    // Validate color values
-    if (tokens.colors && typeof tokens.colors === 'object') {
-      const colors = tokens.colors as Record<string, string>;
-      const colorPattern = /^#([0-9A-Fa-f]{3}|[0-9A-Fa-f]{6}|[0-9A-Fa-f]{8})$/;
-
-      for (const [key, value] of Object.entries(colors)) {
-        if (typeof value === 'string' && !colorPattern.test(value)) {
-          diagnostics.push(
-            new vscode.Diagnostic(
-              new vscode.Range(0, 0, 0, 1),
-              `Invalid color value for "${key}": "${value}"`,
-              vscode.DiagnosticSeverity.Warning
-            )
-          );
-        }
+    for (const document of vscode.workspace.textDocuments) {
+      if (document.isDirty && document.uri.scheme === 'file' && isInside(themePath, document.fileName)) {
+        overlay.set(document.fileName, document.getText());
       }
     }
-  }
 
-  private findFieldRange(document: vscode.TextDocument, fieldName: string): vscode.Range {
-    const text = document.getText();
-    const pattern = new RegExp(`"${fieldName}"\\s*:\\s*`);
-    const match = text.match(pattern);
+    let result: ValidationResult;
+    try {
+      // Rule plugins are theme code, so only run them in trusted workspaces
+      result = await new ThemeValidator(themePath, { overlay, loadPlugins: vscode.workspace.isTrusted }).validate();
+    } catch (error) {
+      console.error('Spwig validation failed:', error);
+      return;
+    }
 
-    if (match && match.index !== undefined) {
-      const startPos = document.positionAt(match.index);
-      const endPos = document.positionAt(match.index + match[0].length);
-      return new vscode.Range(startPos, endPos);
+    // A newer edit started another run while this one was in flight
+    if (generation !== this.generation) {
+      return;
     }
 
-    return new vscode.Range(0, 0, 0, 1);
+    this.showResult(themePath, result);
   }
 
-  async validateWorkspace() {
-    const themePath = await getThemePath();
-    if (!themePath) {
-      return;
+  /**
+   * Replace the theme's diagnostics with a validation result.
+   * Issues that aren't tied to a file are shown on manifest.json.
+   */
+  showResult(themePath: string, result: ValidationResult) {
+    const manifestPath = path.join(themePath, 'manifest.json');
+    const byFile = new Map<string, vscode.Diagnostic[]>();
+
+    const add = (item: ValidationError | ValidationWarning, severity: vscode.DiagnosticSeverity) => {
+      const filePath = item.path && path.isAbsolute(item.path) ? item.path : manifestPath;
+      const suggestion = item.suggestion ? `\n💡 ${item.suggestion}` : '';
+      const diagnostic = new vscode.Diagnostic(this.getRange(filePath, item), item.message + suggestion, severity);
+      diagnostic.source = 'spwig';
+      diagnostic.code = item.type;
+
+      const diagnostics = byFile.get(filePath) || [];
+      diagnostics.push(diagnostic);
+      byFile.set(filePath, diagnostics);
+    };
+
+    for (const error of result.errors) {
+      add(error, vscode.DiagnosticSeverity.Error);
+    }
+    for (const warning of result.warnings) {
+      add(warning, vscode.DiagnosticSeverity.Warning);
     }
 
-    // Validate all relevant files
-    const patterns = ['manifest.json', 'tokens.json'];
+    // Other themes in a multi-root workspace keep their diagnostics
+    const themeKey = path.resolve(themePath);
+    for (const uri of this.themeFiles.get(themeKey) || []) {
+      this.diagnosticCollection.delete(uri);
+    }
+    const uris: vscode.Uri[] = [];
+    for (const [filePath, diagnostics] of byFile) {
+      const uri = vscode.Uri.file(filePath);
+      this.diagnosticCollection.set(uri, diagnostics);
+      uris.push(uri);
+    }
+    this.themeFiles.set(themeKey, uris);
+  }
 
-    for (const pattern of patterns) {
-      const files = await vscode.workspace.findFiles(pattern);
-      for (const file of files) {
-        const document = await vscode.workspace.openTextDocument(file);
-        await this.validateDocument(document);
-      }
+  /**
+   * Range for a validator position (1-based line/column), widened to the token there
+   * when the file is open
+   */
+  private getRange(filePath: string, item: ValidationError | ValidationWarning): vscode.Range {
+    if (!item.line) {
+      return new vscode.Range(0, 0, 0, 0);
     }
+
+    const position = new vscode.Position(item.line - 1, Math.max((item.column || 1) - 1, 0));
+    const document = vscode.workspace.textDocuments.find((d) => d.fileName === filePath);
+    return document?.getWordRangeAtPosition(position, TOKEN_PATTERN) || new vscode.Range(position, position);
   }
 }
+
+function isInside(dir: string, filePath: string): boolean {
+  const relative = path.relative(dir, filePath);
+  return !!relative && !relative.startsWith('..') && !path.isAbsolute(relative);
+}
+
+function toPosix(filePath: string): string {
+  return filePath.split(path.sep).join('/');
+}
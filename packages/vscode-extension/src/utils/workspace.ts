@@ -28,6 +28,26 @@ export async function getThemePath(): Promise<string | undefined> {
   return undefined;
 }
 
+/**
+ * Find the theme directory containing a file: the nearest parent with a manifest.json,
+ * without leaving the file's workspace folder
+ */
+export function findThemeRoot(filePath: string): string | undefined {
+  const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(filePath));
+  const stop = folder ? folder.uri.fsPath : path.parse(filePath).root;
+  let dir = path.dirname(filePath);
+
+  for (;;) {
+    if (fs.existsSync(path.join(dir, 'manifest.json'))) {
+      return dir;
+    }
+    if (dir === stop || dir === path.dirname(dir)) {
+      return undefined;
+    }
+    dir = path.dirname(dir);
+  }
+}
+
 export async function getThemeManifest(): Promise<{
   path: string;
   manifest: ThemeManifest;